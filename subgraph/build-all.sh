@@ -1,6 +1,6 @@
 #!/bin/bash
 
-# Build all 3 subgraphs at once
+# Build all subgraphs at once
 
 set -e
 
@@ -34,10 +34,20 @@ cd ..
 echo "✅ Reserve built"
 echo ""
 
+# Build Unified (cross-tranche flows)
+echo "📊 Building Unified Cross-Tranche..."
+cd unified
+npx graph codegen
+npx graph build
+cd ..
+echo "✅ Unified built"
+echo ""
+
 echo "🎉 All subgraphs built successfully!"
 echo ""
 echo "Deploy with:"
 echo "  cd senior && goldsky subgraph deploy liquid-royalty-senior/v2.0.0 --path ."
 echo "  cd junior && goldsky subgraph deploy liquid-royalty-junior/v2.0.0 --path ."
 echo "  cd reserve && goldsky subgraph deploy liquid-royalty-reserve/v2.0.0 --path ."
+echo "  cd unified && goldsky subgraph deploy liquid-royalty-unified/v2.0.0 --path ."
 
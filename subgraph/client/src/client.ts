@@ -0,0 +1,131 @@
+import { QUERIES, VaultEntities } from "./schema"
+import { BlockHeight, Collection, ListOptions, VaultName, Where } from "./types"
+
+// graph-node caps `first` at 1000, so collections are paged by id
+export const PAGE_SIZE = 1000
+
+interface GraphQLResponse<T> {
+  data?: T
+  errors?: { message: string }[]
+}
+
+export interface ClientOptions {
+  headers?: Record<string, string>
+  fetch?: typeof fetch
+}
+
+/** Raised for HTTP failures and GraphQL `errors` responses. */
+export class SubgraphError extends Error {
+  constructor(
+    readonly endpoint: string,
+    message: string,
+    readonly status?: number
+  ) {
+    super(`${endpoint}: ${message}`)
+    this.name = "SubgraphError"
+  }
+}
+
+/** Typed queries against one vault subgraph. */
+export class SubgraphClient<V extends VaultName> {
+  private readonly fetcher: typeof fetch
+
+  constructor(
+    readonly vault: V,
+    readonly endpoint: string,
+    private readonly options: ClientOptions = {}
+  ) {
+    this.fetcher = options.fetch ?? fetch
+  }
+
+  async request<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const response = await this.fetcher(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.options.headers },
+      body: JSON.stringify({ query, variables }),
+    })
+    if (!response.ok) {
+      throw new SubgraphError(this.endpoint, `HTTP ${response.status} ${response.statusText}`, response.status)
+    }
+
+    const body = (await response.json()) as GraphQLResponse<T>
+    if (body.errors && body.errors.length > 0) {
+      throw new SubgraphError(this.endpoint, body.errors.map((e) => e.message).join("; "))
+    }
+    if (body.data === undefined) throw new SubgraphError(this.endpoint, "response has no data")
+    return body.data
+  }
+
+  protocolStats(block?: BlockHeight): Promise<VaultEntities[V]["protocolStats"] | null> {
+    return this.single("protocolStats", "protocol", block)
+  }
+
+  user(address: string, block?: BlockHeight): Promise<VaultEntities[V]["users"] | null> {
+    return this.single("users", address.toLowerCase(), block)
+  }
+
+  users(options?: ListOptions): Promise<VaultEntities[V]["users"][]> {
+    return this.list("users", options)
+  }
+
+  deposits(options?: ListOptions): Promise<VaultEntities[V]["deposits"][]> {
+    return this.list("deposits", options)
+  }
+
+  withdrawals(options?: ListOptions): Promise<VaultEntities[V]["withdrawals"][]> {
+    return this.list("withdrawals", options)
+  }
+
+  /** ProfitSpillover on senior, SpilloverReceived on junior and reserve. */
+  spillovers(options?: ListOptions): Promise<VaultEntities[V]["spillovers"][]> {
+    return this.list("spillovers", options)
+  }
+
+  /** BackstopTriggered on senior, BackstopProvided on junior and reserve. */
+  backstops(options?: ListOptions): Promise<VaultEntities[V]["backstops"][]> {
+    return this.list("backstops", options)
+  }
+
+  private async single<K extends Collection | "protocolStats">(
+    key: K,
+    id: string,
+    block?: BlockHeight
+  ): Promise<VaultEntities[V][K] | null> {
+    const { single, fields } = QUERIES[this.vault][key]
+    const blockArg = block ? ", block: $block" : ""
+    const blockVar = block ? ", $block: Block_height" : ""
+    const data = await this.request<Record<string, VaultEntities[V][K] | null>>(
+      `query ($id: ID!${blockVar}) { entity: ${single}(id: $id${blockArg}) { ${fields} } }`,
+      block ? { id, block } : { id }
+    )
+    return data.entity
+  }
+
+  /**
+   * Pages through a collection in id order with an `id_gt` cursor, merged into `where`.
+   * A caller's own `id_gt` is where the cursor starts.
+   */
+  async list<C extends Collection>(collection: C, options: ListOptions = {}): Promise<VaultEntities[V][C][]> {
+    const { entity, list, fields } = QUERIES[this.vault][collection]
+    const limit = options.limit ?? Infinity
+    const blockArg = options.block ? ", block: $block" : ""
+    const blockVar = options.block ? ", $block: Block_height" : ""
+    const query = `query ($first: Int!, $where: ${entity}_filter!${blockVar}) {
+      rows: ${list}(first: $first, orderBy: id, orderDirection: asc, where: $where${blockArg}) { ${fields} }
+    }`
+
+    const rows: VaultEntities[V][C][] = []
+    let cursor = String(options.where?.id_gt ?? "")
+    while (rows.length < limit) {
+      const first = Math.min(PAGE_SIZE, limit - rows.length)
+      const where: Where = { ...options.where, id_gt: cursor }
+      const variables = options.block ? { first, where, block: options.block } : { first, where }
+      const page = await this.request<{ rows: (VaultEntities[V][C] & { id: string })[] }>(query, variables)
+
+      rows.push(...page.rows)
+      if (page.rows.length < first) break
+      cursor = page.rows[page.rows.length - 1].id
+    }
+    return rows
+  }
+}
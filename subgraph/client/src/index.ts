@@ -0,0 +1,4 @@
+export * from "./client"
+export * from "./portfolio"
+export * from "./schema"
+export * from "./types"
@@ -0,0 +1,121 @@
+import { ClientOptions, SubgraphClient } from "./client"
+import { JuniorUser, QUERIES, ReserveUser, SeniorUser, VaultEntities } from "./schema"
+import { BlockHeight, VaultName } from "./types"
+
+const GOLDSKY = "https://api.goldsky.com/api/public/project_cmjh1lmjigfeb010c2rvw26vw/subgraphs"
+
+/** Production endpoints; reserve is deployed as liquid-royalty-alar. */
+export const DEFAULT_ENDPOINTS: Record<VaultName, string> = {
+  senior: `${GOLDSKY}/liquid-royalty-senior/v2.0.1/gn`,
+  junior: `${GOLDSKY}/liquid-royalty-junior/v2.0.1/gn`,
+  reserve: `${GOLDSKY}/liquid-royalty-alar/v2.0.1/gn`,
+}
+
+export interface VaultClients {
+  senior: SubgraphClient<"senior">
+  junior: SubgraphClient<"junior">
+  reserve: SubgraphClient<"reserve">
+}
+
+// Fields every vault's User carries, as the subgraph returns them
+type PositionFields = Pick<
+  SeniorUser,
+  "totalDeposited" | "totalWithdrawn" | "totalFeesPaid" | "costBasis" | "realizedPnL" | "shareBalance"
+>
+
+/**
+ * An address's position in one vault, in that vault's own asset. Vaults hold different
+ * assets at different prices, so positions are never summed across vaults.
+ */
+export interface VaultPosition<U> {
+  user: U
+  totalDeposited: bigint
+  totalWithdrawn: bigint
+  totalFeesPaid: bigint
+  costBasis: bigint
+  realizedPnL: bigint
+  shareBalance: bigint
+  // shareBalance priced at ProtocolStats.rebaseIndex (senior) or sharePrice (junior, reserve) in the same block
+  currentValue: bigint
+  unrealizedPnL: bigint
+}
+
+export interface Portfolio {
+  address: string
+  // null where the address never touched the vault
+  senior: VaultPosition<SeniorUser> | null
+  junior: VaultPosition<JuniorUser> | null
+  reserve: VaultPosition<ReserveUser> | null
+}
+
+const PRECISION = 10n ** 18n
+
+export function createClients(
+  endpoints: Record<VaultName, string> = DEFAULT_ENDPOINTS,
+  options?: ClientOptions
+): VaultClients {
+  return {
+    senior: new SubgraphClient("senior", endpoints.senior, options),
+    junior: new SubgraphClient("junior", endpoints.junior, options),
+    reserve: new SubgraphClient("reserve", endpoints.reserve, options),
+  }
+}
+
+function toPosition<U extends PositionFields>(user: U, price: string): VaultPosition<U> {
+  const shareBalance = BigInt(user.shareBalance)
+  const costBasis = BigInt(user.costBasis)
+  const currentValue = (shareBalance * BigInt(price)) / PRECISION
+  return {
+    user,
+    totalDeposited: BigInt(user.totalDeposited),
+    totalWithdrawn: BigInt(user.totalWithdrawn),
+    totalFeesPaid: BigInt(user.totalFeesPaid),
+    costBasis,
+    realizedPnL: BigInt(user.realizedPnL),
+    shareBalance,
+    currentValue,
+    unrealizedPnL: currentValue - costBasis,
+  }
+}
+
+// User and ProtocolStats come from one query so both are read at the same block
+async function loadPosition<V extends VaultName>(
+  client: SubgraphClient<V>,
+  id: string,
+  block?: BlockHeight
+): Promise<VaultPosition<VaultEntities[V]["users"]> | null> {
+  const { single, fields } = QUERIES[client.vault].users
+  const price = client.vault === "senior" ? "rebaseIndex" : "sharePrice"
+  const blockArg = block ? ", block: $block" : ""
+  const blockVar = block ? ", $block: Block_height" : ""
+  const data = await client.request<{
+    user: VaultEntities[V]["users"] | null
+    stats: Record<string, string> | null
+  }>(
+    `query ($id: ID!${blockVar}) {
+      user: ${single}(id: $id${blockArg}) { ${fields} }
+      stats: protocolStats(id: "protocol"${blockArg}) { ${price} }
+    }`,
+    block ? { id, block } : { id }
+  )
+  if (!data.user || !data.stats) return null
+  return toPosition(data.user, data.stats[price])
+}
+
+/**
+ * Loads an address's position in each vault, priced from that vault's ProtocolStats.
+ * Pass `blocks` to read each vault at a specific height.
+ */
+export async function getPortfolio(
+  clients: VaultClients,
+  address: string,
+  blocks: Partial<Record<VaultName, BlockHeight>> = {}
+): Promise<Portfolio> {
+  const id = address.toLowerCase()
+  const [senior, junior, reserve] = await Promise.all([
+    loadPosition(clients.senior, id, blocks.senior),
+    loadPosition(clients.junior, id, blocks.junior),
+    loadPosition(clients.reserve, id, blocks.reserve),
+  ])
+  return { address: id, senior, junior, reserve }
+}
@@ -0,0 +1,461 @@
+// Generated by scripts/generate-client.ts from the vault schema.graphql files. Do not edit.
+import { Collection, EntityQuery, EntityRef, VaultName } from "./types"
+
+export interface SeniorUser {
+  id: string
+  totalDeposited: string
+  totalWithdrawn: string
+  totalFeesPaid: string
+  costBasis: string
+  realizedPnL: string
+  shareBalance: string
+  balanceSeconds: string
+  balanceSecondsTimestamp: string
+  indexSeconds: string
+  pendingBurn: EntityRef | null
+  lastActivityTimestamp: string
+}
+
+export interface SeniorDeposit {
+  id: string
+  user: EntityRef
+  assets: string
+  shares: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface SeniorWithdrawal {
+  id: string
+  user: EntityRef
+  assets: string
+  shares: string
+  costBasis: string
+  proceeds: string
+  realizedPnL: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface SeniorSpillover {
+  id: string
+  excessAmount: string
+  toJunior: string
+  toReserve: string
+  epoch: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface SeniorBackstop {
+  id: string
+  deficitAmount: string
+  fromReserve: string
+  fromJunior: string
+  fullyRestored: boolean
+  epoch: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface SeniorProtocolStats {
+  id: string
+  totalDeposits: string
+  totalWithdrawals: string
+  totalSpilloverAmount: string
+  totalBackstopAmount: string
+  totalWithdrawalFees: string
+  totalManagementFees: string
+  totalPerformanceFees: string
+  treasury: EntityRef | null
+  currentImplementation: EntityRef | null
+  vaultValue: string
+  kodiakHook: string | null
+  totalCapitalDeployed: string
+  totalCapitalReturned: string
+  deployedCapital: string
+  idleCapital: string
+  whitelistedLPs: number
+  whitelistedLPTokens: number
+  totalSeeds: number
+  totalSeededValue: string
+  totalSeededShares: string
+  totalSeededLPValue: string
+  totalShares: string
+  lastMint: EntityRef | null
+  totalUsers: number
+  totalHolders: number
+  totalBackstops: number
+  totalSpillovers: number
+  totalRebases: number
+  totalIncidents: number
+  totalOutages: number
+  paused: boolean
+  currentOutage: EntityRef | null
+  currentEpoch: string
+  rebaseIndex: string
+  indexSeconds: string
+  indexSecondsTimestamp: string
+  lastUpdateTimestamp: string
+}
+
+export interface SeniorEntities {
+  users: SeniorUser
+  deposits: SeniorDeposit
+  withdrawals: SeniorWithdrawal
+  spillovers: SeniorSpillover
+  backstops: SeniorBackstop
+  protocolStats: SeniorProtocolStats
+}
+
+export interface JuniorUser {
+  id: string
+  totalDeposited: string
+  totalWithdrawn: string
+  totalFeesPaid: string
+  costBasis: string
+  realizedPnL: string
+  shareBalance: string
+  balanceSeconds: string
+  balanceSecondsTimestamp: string
+  pendingBurn: EntityRef | null
+  pendingWithdrawalFee: EntityRef | null
+  lastActivityTimestamp: string
+}
+
+export interface JuniorDeposit {
+  id: string
+  user: EntityRef
+  sender: EntityRef
+  owner: EntityRef
+  assets: string
+  shares: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface JuniorWithdrawal {
+  id: string
+  user: EntityRef
+  sender: EntityRef
+  receiver: EntityRef
+  owner: EntityRef
+  assets: string
+  shares: string
+  costBasis: string
+  proceeds: string
+  realizedPnL: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface JuniorSpilloverReceived {
+  id: string
+  amount: string
+  fromSenior: string
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface JuniorBackstopProvided {
+  id: string
+  amount: string
+  toSenior: string
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface JuniorProtocolStats {
+  id: string
+  totalDeposits: string
+  totalWithdrawals: string
+  totalSpilloverReceived: string
+  totalBackstopProvided: string
+  totalWithdrawalFees: string
+  totalManagementFees: string
+  totalPerformanceFees: string
+  mgmtFeeSchedule: string
+  treasury: EntityRef | null
+  currentImplementation: EntityRef | null
+  vaultValue: string
+  kodiakHook: string | null
+  totalCapitalDeployed: string
+  totalCapitalReturned: string
+  deployedCapital: string
+  idleCapital: string
+  whitelistedLPs: number
+  whitelistedLPTokens: number
+  totalSeeds: number
+  totalSeededValue: string
+  totalSeededShares: string
+  totalSeededLPValue: string
+  totalShares: string
+  lastMint: EntityRef | null
+  sharePrice: string
+  totalUsers: number
+  totalHolders: number
+  totalIncidents: number
+  lastUpdateTimestamp: string
+}
+
+export interface JuniorEntities {
+  users: JuniorUser
+  deposits: JuniorDeposit
+  withdrawals: JuniorWithdrawal
+  spillovers: JuniorSpilloverReceived
+  backstops: JuniorBackstopProvided
+  protocolStats: JuniorProtocolStats
+}
+
+export interface ReserveUser {
+  id: string
+  totalDeposited: string
+  totalWithdrawn: string
+  totalFeesPaid: string
+  costBasis: string
+  realizedPnL: string
+  shareBalance: string
+  balanceSeconds: string
+  balanceSecondsTimestamp: string
+  pendingBurn: EntityRef | null
+  pendingWithdrawalFee: EntityRef | null
+  lastActivityTimestamp: string
+}
+
+export interface ReserveDeposit {
+  id: string
+  user: EntityRef
+  sender: EntityRef
+  owner: EntityRef
+  assets: string
+  shares: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface ReserveWithdrawal {
+  id: string
+  user: EntityRef
+  sender: EntityRef
+  receiver: EntityRef
+  owner: EntityRef
+  assets: string
+  shares: string
+  costBasis: string
+  proceeds: string
+  realizedPnL: string
+  vaultState: EntityRef | null
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface ReserveSpilloverReceived {
+  id: string
+  amount: string
+  fromSenior: string
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface ReserveBackstopProvided {
+  id: string
+  amount: string
+  toSenior: string
+  implementation: EntityRef | null
+  timestamp: string
+  blockNumber: string
+  transactionHash: string
+}
+
+export interface ReserveProtocolStats {
+  id: string
+  totalDeposits: string
+  totalWithdrawals: string
+  totalSpilloverReceived: string
+  totalBackstopProvided: string
+  currentDepositCap: string
+  totalWithdrawalFees: string
+  totalManagementFees: string
+  totalPerformanceFees: string
+  mgmtFeeSchedule: string
+  treasury: EntityRef | null
+  currentImplementation: EntityRef | null
+  vaultValue: string
+  kodiakHook: string | null
+  totalCapitalDeployed: string
+  totalCapitalReturned: string
+  deployedCapital: string
+  idleCapital: string
+  whitelistedLPs: number
+  whitelistedLPTokens: number
+  totalSeeds: number
+  totalSeededValue: string
+  totalSeededShares: string
+  totalSeededLPValue: string
+  totalShares: string
+  lastMint: EntityRef | null
+  sharePrice: string
+  totalUsers: number
+  totalHolders: number
+  totalIncidents: number
+  lastUpdateTimestamp: string
+}
+
+export interface ReserveEntities {
+  users: ReserveUser
+  deposits: ReserveDeposit
+  withdrawals: ReserveWithdrawal
+  spillovers: ReserveSpilloverReceived
+  backstops: ReserveBackstopProvided
+  protocolStats: ReserveProtocolStats
+}
+
+export interface VaultEntities {
+  senior: SeniorEntities
+  junior: JuniorEntities
+  reserve: ReserveEntities
+}
+
+export const QUERIES: Record<VaultName, Record<Collection | "protocolStats", EntityQuery>> = {
+  senior: {
+    users: {
+      entity: "User",
+      single: "user",
+      list: "users",
+      fields: "id totalDeposited totalWithdrawn totalFeesPaid costBasis realizedPnL shareBalance balanceSeconds balanceSecondsTimestamp indexSeconds pendingBurn { id } lastActivityTimestamp",
+    },
+    deposits: {
+      entity: "Deposit",
+      single: "deposit",
+      list: "deposits",
+      fields: "id user { id } assets shares vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    withdrawals: {
+      entity: "Withdrawal",
+      single: "withdrawal",
+      list: "withdrawals",
+      fields: "id user { id } assets shares costBasis proceeds realizedPnL vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    spillovers: {
+      entity: "Spillover",
+      single: "spillover",
+      list: "spillovers",
+      fields: "id excessAmount toJunior toReserve epoch { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    backstops: {
+      entity: "Backstop",
+      single: "backstop",
+      list: "backstops",
+      fields: "id deficitAmount fromReserve fromJunior fullyRestored epoch { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    protocolStats: {
+      entity: "ProtocolStats",
+      single: "protocolStats",
+      list: "protocolStats_collection",
+      fields: "id totalDeposits totalWithdrawals totalSpilloverAmount totalBackstopAmount totalWithdrawalFees totalManagementFees totalPerformanceFees treasury { id } currentImplementation { id } vaultValue kodiakHook totalCapitalDeployed totalCapitalReturned deployedCapital idleCapital whitelistedLPs whitelistedLPTokens totalSeeds totalSeededValue totalSeededShares totalSeededLPValue totalShares lastMint { id } totalUsers totalHolders totalBackstops totalSpillovers totalRebases totalIncidents totalOutages paused currentOutage { id } currentEpoch rebaseIndex indexSeconds indexSecondsTimestamp lastUpdateTimestamp",
+    },
+  },
+  junior: {
+    users: {
+      entity: "User",
+      single: "user",
+      list: "users",
+      fields: "id totalDeposited totalWithdrawn totalFeesPaid costBasis realizedPnL shareBalance balanceSeconds balanceSecondsTimestamp pendingBurn { id } pendingWithdrawalFee { id } lastActivityTimestamp",
+    },
+    deposits: {
+      entity: "Deposit",
+      single: "deposit",
+      list: "deposits",
+      fields: "id user { id } sender { id } owner { id } assets shares vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    withdrawals: {
+      entity: "Withdrawal",
+      single: "withdrawal",
+      list: "withdrawals",
+      fields: "id user { id } sender { id } receiver { id } owner { id } assets shares costBasis proceeds realizedPnL vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    spillovers: {
+      entity: "SpilloverReceived",
+      single: "spilloverReceived",
+      list: "spilloverReceiveds",
+      fields: "id amount fromSenior implementation { id } timestamp blockNumber transactionHash",
+    },
+    backstops: {
+      entity: "BackstopProvided",
+      single: "backstopProvided",
+      list: "backstopProvideds",
+      fields: "id amount toSenior implementation { id } timestamp blockNumber transactionHash",
+    },
+    protocolStats: {
+      entity: "ProtocolStats",
+      single: "protocolStats",
+      list: "protocolStats_collection",
+      fields: "id totalDeposits totalWithdrawals totalSpilloverReceived totalBackstopProvided totalWithdrawalFees totalManagementFees totalPerformanceFees mgmtFeeSchedule treasury { id } currentImplementation { id } vaultValue kodiakHook totalCapitalDeployed totalCapitalReturned deployedCapital idleCapital whitelistedLPs whitelistedLPTokens totalSeeds totalSeededValue totalSeededShares totalSeededLPValue totalShares lastMint { id } sharePrice totalUsers totalHolders totalIncidents lastUpdateTimestamp",
+    },
+  },
+  reserve: {
+    users: {
+      entity: "User",
+      single: "user",
+      list: "users",
+      fields: "id totalDeposited totalWithdrawn totalFeesPaid costBasis realizedPnL shareBalance balanceSeconds balanceSecondsTimestamp pendingBurn { id } pendingWithdrawalFee { id } lastActivityTimestamp",
+    },
+    deposits: {
+      entity: "Deposit",
+      single: "deposit",
+      list: "deposits",
+      fields: "id user { id } sender { id } owner { id } assets shares vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    withdrawals: {
+      entity: "Withdrawal",
+      single: "withdrawal",
+      list: "withdrawals",
+      fields: "id user { id } sender { id } receiver { id } owner { id } assets shares costBasis proceeds realizedPnL vaultState { id } implementation { id } timestamp blockNumber transactionHash",
+    },
+    spillovers: {
+      entity: "SpilloverReceived",
+      single: "spilloverReceived",
+      list: "spilloverReceiveds",
+      fields: "id amount fromSenior implementation { id } timestamp blockNumber transactionHash",
+    },
+    backstops: {
+      entity: "BackstopProvided",
+      single: "backstopProvided",
+      list: "backstopProvideds",
+      fields: "id amount toSenior implementation { id } timestamp blockNumber transactionHash",
+    },
+    protocolStats: {
+      entity: "ProtocolStats",
+      single: "protocolStats",
+      list: "protocolStats_collection",
+      fields: "id totalDeposits totalWithdrawals totalSpilloverReceived totalBackstopProvided currentDepositCap totalWithdrawalFees totalManagementFees totalPerformanceFees mgmtFeeSchedule treasury { id } currentImplementation { id } vaultValue kodiakHook totalCapitalDeployed totalCapitalReturned deployedCapital idleCapital whitelistedLPs whitelistedLPTokens totalSeeds totalSeededValue totalSeededShares totalSeededLPValue totalShares lastMint { id } sharePrice totalUsers totalHolders totalIncidents lastUpdateTimestamp",
+    },
+  },
+}
@@ -0,0 +1,33 @@
+export type VaultName = "senior" | "junior" | "reserve"
+
+/** Paginated collections every vault serves; spillovers and backstops map to vault-specific entities. */
+export type Collection = "users" | "deposits" | "withdrawals" | "spillovers" | "backstops"
+
+/** Entity references are selected as their id only. */
+export interface EntityRef {
+  id: string
+}
+
+/** How a collection is queried: entity name for the `_filter` input, root fields and selection. */
+export interface EntityQuery {
+  entity: string
+  single: string
+  list: string
+  fields: string
+}
+
+/** graph-node `where` input; values are passed through as GraphQL variables. */
+export type Where = Record<string, unknown>
+
+export interface BlockHeight {
+  number?: number
+  hash?: string
+  number_gte?: number
+}
+
+export interface ListOptions {
+  where?: Where
+  block?: BlockHeight
+  // Stop after this many rows; every page is fetched when unset
+  limit?: number
+}
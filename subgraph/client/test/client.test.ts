@@ -0,0 +1,118 @@
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+import { PAGE_SIZE, SubgraphClient, SubgraphError } from "../src"
+import { GraphQLRequest, MockServer } from "./mock-server"
+
+const USER_IDS = Array.from({ length: 2500 }, (_, i) => `0x${i.toString(16).padStart(40, "0")}`)
+
+// Serves `users` the way graph-node does: id_gt filter, id order, capped by `first`
+function pageUsers(request: GraphQLRequest) {
+  const { first, where } = request.variables
+  const rows = USER_IDS.filter((id) => id > where.id_gt)
+    .slice(0, first)
+    .map((id) => ({ id }))
+  return { body: { data: { rows } } }
+}
+
+describe("SubgraphClient", () => {
+  const server = new MockServer(pageUsers)
+  let client: SubgraphClient<"junior">
+
+  before(async () => {
+    await server.start()
+    client = new SubgraphClient("junior", server.url)
+  })
+  after(() => server.stop())
+  beforeEach(() => {
+    server.requests.length = 0
+    server.handler = pageUsers
+  })
+
+  it("pages past the 1000 row cap with an id cursor", async () => {
+    const users = await client.users()
+
+    assert.equal(users.length, USER_IDS.length)
+    assert.deepEqual(
+      users.map((u) => u.id),
+      USER_IDS
+    )
+    assert.equal(server.requests.length, 3)
+    assert.deepEqual(
+      server.requests.map((r) => r.variables.where.id_gt),
+      ["", USER_IDS[PAGE_SIZE - 1], USER_IDS[2 * PAGE_SIZE - 1]]
+    )
+    assert.match(server.requests[0].query, /users\(first: \$first, orderBy: id, orderDirection: asc/)
+  })
+
+  it("stops once the limit is reached", async () => {
+    const users = await client.users({ limit: 1200 })
+
+    assert.equal(users.length, 1200)
+    assert.deepEqual(
+      server.requests.map((r) => r.variables.first),
+      [PAGE_SIZE, 200]
+    )
+  })
+
+  it("starts the cursor at a caller's id_gt", async () => {
+    const users = await client.users({ where: { id_gt: USER_IDS[1499] } })
+
+    assert.deepEqual(
+      users.map((u) => u.id),
+      USER_IDS.slice(1500)
+    )
+    assert.deepEqual(
+      server.requests.map((r) => r.variables.where.id_gt),
+      [USER_IDS[1499], USER_IDS[2499]]
+    )
+  })
+
+  it("merges where filters with the cursor and types them per entity", async () => {
+    server.handler = () => ({ body: { data: { rows: [] } } })
+    await client.spillovers({ where: { amount_gt: "0" }, block: { number: 42 } })
+
+    const [request] = server.requests
+    assert.match(request.query, /\$where: SpilloverReceived_filter!/)
+    assert.match(request.query, /spilloverReceiveds\(/)
+    assert.deepEqual(request.variables.where, { amount_gt: "0", id_gt: "" })
+    assert.deepEqual(request.variables.block, { number: 42 })
+  })
+
+  it("routes senior collections to senior entities", async () => {
+    server.handler = () => ({ body: { data: { rows: [] } } })
+    const senior = new SubgraphClient("senior", server.url)
+    await senior.backstops()
+
+    assert.match(server.requests[0].query, /\$where: Backstop_filter!/)
+    assert.doesNotMatch(server.requests[0].query, /\$block/)
+  })
+
+  it("reads ProtocolStats by its singleton id", async () => {
+    server.handler = () => ({ body: { data: { entity: { id: "protocol", totalDeposits: "5" } } } })
+    const stats = await client.protocolStats({ number: 100 })
+
+    assert.equal(stats?.totalDeposits, "5")
+    assert.deepEqual(server.requests[0].variables, { id: "protocol", block: { number: 100 } })
+    assert.match(server.requests[0].query, /protocolStats\(id: \$id, block: \$block\)/)
+  })
+
+  it("raises SubgraphError on GraphQL errors", async () => {
+    server.handler = () => ({ body: { errors: [{ message: "indexing_error" }] } })
+
+    await assert.rejects(client.deposits(), (error: unknown) => {
+      assert.ok(error instanceof SubgraphError)
+      assert.match(error.message, /indexing_error/)
+      return true
+    })
+  })
+
+  it("raises SubgraphError on HTTP failures", async () => {
+    server.handler = () => ({ status: 503, body: {} })
+
+    await assert.rejects(client.withdrawals(), (error: unknown) => {
+      assert.ok(error instanceof SubgraphError)
+      assert.equal(error.status, 503)
+      return true
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import * as http from "http"
+import { AddressInfo } from "net"
+
+export interface GraphQLRequest {
+  query: string
+  variables: Record<string, any>
+}
+
+export type Handler = (request: GraphQLRequest) => { status?: number; body: unknown }
+
+/** Local GraphQL endpoint that records each request and answers through `handler`. */
+export class MockServer {
+  readonly requests: GraphQLRequest[] = []
+  private server = http.createServer((req, res) => {
+    let raw = ""
+    req.on("data", (chunk) => (raw += chunk))
+    req.on("end", () => {
+      const request = JSON.parse(raw) as GraphQLRequest
+      this.requests.push(request)
+      const { status, body } = this.handler(request)
+      res.writeHead(status ?? 200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify(body))
+    })
+  })
+
+  constructor(public handler: Handler) {}
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, "127.0.0.1", resolve))
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())))
+  }
+}
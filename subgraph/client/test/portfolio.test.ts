@@ -0,0 +1,107 @@
+import assert from "node:assert/strict"
+import { after, before, describe, it } from "node:test"
+import { createClients, getPortfolio } from "../src"
+import { MockServer } from "./mock-server"
+
+const ADDRESS = "0xAbCdEf0000000000000000000000000000000001"
+
+function user(values: Record<string, string>) {
+  return {
+    id: ADDRESS.toLowerCase(),
+    totalDeposited: "0",
+    totalWithdrawn: "0",
+    totalFeesPaid: "0",
+    costBasis: "0",
+    realizedPnL: "0",
+    shareBalance: "0",
+    ...values,
+  }
+}
+
+describe("getPortfolio", () => {
+  const senior = new MockServer(() => ({
+    body: {
+      data: {
+        user: user({ totalDeposited: "1000", costBasis: "1000", shareBalance: "900" }),
+        stats: { rebaseIndex: "1100000000000000000" },
+      },
+    },
+  }))
+  const junior = new MockServer(() => ({
+    body: {
+      data: {
+        user: user({
+          totalDeposited: "500",
+          totalWithdrawn: "200",
+          totalFeesPaid: "2",
+          costBasis: "300",
+          realizedPnL: "-10",
+          shareBalance: "250",
+        }),
+        stats: { sharePrice: "1500000000000000000" },
+      },
+    },
+  }))
+  const reserve = new MockServer(() => ({ body: { data: { user: null, stats: { sharePrice: "1000000000000000000" } } } }))
+
+  before(() => Promise.all([senior.start(), junior.start(), reserve.start()]))
+  after(() => Promise.all([senior.stop(), junior.stop(), reserve.stop()]))
+
+  it("prices each vault's position from its own ProtocolStats", async () => {
+    const clients = createClients({ senior: senior.url, junior: junior.url, reserve: reserve.url })
+    const portfolio = await getPortfolio(clients, ADDRESS, { junior: { number: 7 } })
+
+    assert.equal(portfolio.address, ADDRESS.toLowerCase())
+    assert.equal(portfolio.senior?.user.costBasis, "1000")
+    assert.equal(portfolio.senior?.currentValue, 990n)
+    assert.equal(portfolio.senior?.unrealizedPnL, -10n)
+    assert.ok(portfolio.junior)
+    const { user: juniorUser, ...juniorPosition } = portfolio.junior
+    assert.equal(juniorUser.id, ADDRESS.toLowerCase())
+    assert.deepEqual(juniorPosition, {
+      totalDeposited: 500n,
+      totalWithdrawn: 200n,
+      totalFeesPaid: 2n,
+      costBasis: 300n,
+      realizedPnL: -10n,
+      shareBalance: 250n,
+      currentValue: 375n,
+      unrealizedPnL: 75n,
+    })
+    assert.equal(portfolio.reserve, null)
+    assert.equal("totals" in portfolio, false)
+
+    // User and ProtocolStats share one query, and so one block
+    const [seniorRequest] = senior.requests
+    const [juniorRequest] = junior.requests
+
+    assert.deepEqual(seniorRequest.variables, { id: ADDRESS.toLowerCase() })
+    assert.match(seniorRequest.query, /protocolStats\(id: "protocol"\) \{ rebaseIndex \}/)
+    assert.deepEqual(juniorRequest.variables, { id: ADDRESS.toLowerCase(), block: { number: 7 } })
+    assert.match(juniorRequest.query, /user: user\(id: \$id, block: \$block\)/)
+    assert.match(juniorRequest.query, /protocolStats\(id: "protocol", block: \$block\) \{ sharePrice \}/)
+  })
+
+  it("values a deposit made after a value update at what was paid", async () => {
+    // Junior as the mapping leaves it after VaultValueUpdated(0 -> 1000) for ALICE's 1000 shares
+    // and BOB's 1000-for-1000 deposit: vaultValue 2000 over 2000 shares, price still 1.0
+    const afterDeposit = new MockServer(() => ({
+      body: {
+        data: {
+          user: user({ totalDeposited: "1000", costBasis: "1000", shareBalance: "1000" }),
+          stats: { sharePrice: "1000000000000000000" },
+        },
+      },
+    }))
+    await afterDeposit.start()
+    try {
+      const clients = createClients({ senior: senior.url, junior: afterDeposit.url, reserve: reserve.url })
+      const { junior: position } = await getPortfolio(clients, ADDRESS)
+
+      assert.equal(position?.currentValue, 1000n)
+      assert.equal(position?.unrealizedPnL, 0n)
+    } finally {
+      await afterDeposit.stop()
+    }
+  })
+})
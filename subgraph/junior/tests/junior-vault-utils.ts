@@ -0,0 +1,1137 @@
+import { createMockedFunction, newMockEvent } from "matchstick-as"
+import { ethereum, Address, BigInt, Bytes } from "@graphprotocol/graph-ts"
+import {
+  Deposit,
+  Withdraw,
+  Deposit1,
+  Withdraw1,
+  Transfer,
+  SpilloverReceived,
+  BackstopProvided,
+  JuniorRebaseExecuted,
+  CooldownInitiated,
+  WithdrawalPenaltyCharged,
+  VaultValueUpdated,
+  FeesCollected,
+  BGTClaimed,
+  WithdrawalFeeCharged,
+  ManagementFeeMinted,
+  MgmtFeeScheduleUpdated,
+  AdminSet,
+  AdminTransferred,
+  SeederAdded,
+  SeederRevoked,
+  LiquidityManagerSet,
+  PriceFeedManagerSet,
+  ContractUpdaterSet,
+  Upgraded,
+  Initialized,
+  KodiakHookUpdated,
+  KodiakDeployment,
+  KodiakInvestment,
+  LPInvestment,
+  LPTokensWithdrawn,
+  LPExitedToToken,
+  LPLiquidationExecuted,
+  LiquidityFreedForWithdrawal,
+  WhitelistedLPAdded,
+  WhitelistedLPRemoved,
+  WhitelistedLPTokenAdded,
+  WhitelistedLPTokenRemoved,
+  VaultSeeded,
+  ReserveSeededWithToken,
+  RewardVaultSet,
+  StakedIntoRewardVault,
+  WithdrawnFromRewardVault,
+  StablecoinSwappedToToken,
+  HookTokenSwappedToStablecoin,
+  TokenRescuedFromHook
+} from "../generated/JuniorVault/JuniorVault"
+import {
+  LPLiquidated,
+  AggregatorWhitelisted,
+  AggregatorZapExecuted,
+  SlippageUpdated,
+  RouterUpdated
+} from "../generated/templates/KodiakVaultHook/KodiakVaultHook"
+
+export function createDepositEvent(
+  sender: Address,
+  owner: Address,
+  assets: BigInt,
+  shares: BigInt
+): Deposit {
+  let depositEvent = changetype<Deposit>(newMockEvent())
+  
+  depositEvent.parameters = new Array()
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("sender", ethereum.Value.fromAddress(sender))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("owner", ethereum.Value.fromAddress(owner))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return depositEvent
+}
+
+export function createWithdrawEvent(
+  sender: Address,
+  receiver: Address,
+  owner: Address,
+  assets: BigInt,
+  shares: BigInt
+): Withdraw {
+  let withdrawEvent = changetype<Withdraw>(newMockEvent())
+  
+  withdrawEvent.parameters = new Array()
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("sender", ethereum.Value.fromAddress(sender))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("receiver", ethereum.Value.fromAddress(receiver))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("owner", ethereum.Value.fromAddress(owner))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return withdrawEvent
+}
+
+export function createLegacyDepositEvent(
+  user: Address,
+  assets: BigInt,
+  shares: BigInt
+): Deposit1 {
+  let depositEvent = changetype<Deposit1>(newMockEvent())
+  
+  depositEvent.parameters = new Array()
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return depositEvent
+}
+
+export function createLegacyWithdrawEvent(
+  user: Address,
+  assets: BigInt,
+  shares: BigInt
+): Withdraw1 {
+  let withdrawEvent = changetype<Withdraw1>(newMockEvent())
+  
+  withdrawEvent.parameters = new Array()
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return withdrawEvent
+}
+
+export function createTransferEvent(
+  from: Address,
+  to: Address,
+  value: BigInt
+): Transfer {
+  let transferEvent = changetype<Transfer>(newMockEvent())
+  
+  transferEvent.parameters = new Array()
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("from", ethereum.Value.fromAddress(from))
+  )
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("to", ethereum.Value.fromAddress(to))
+  )
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("value", ethereum.Value.fromUnsignedBigInt(value))
+  )
+  
+  return transferEvent
+}
+
+export function createSpilloverReceivedEvent(
+  amount: BigInt,
+  fromSenior: Address
+): SpilloverReceived {
+  let spilloverReceivedEvent = changetype<SpilloverReceived>(newMockEvent())
+  
+  spilloverReceivedEvent.parameters = new Array()
+  
+  spilloverReceivedEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  spilloverReceivedEvent.parameters.push(
+    new ethereum.EventParam("fromSenior", ethereum.Value.fromAddress(fromSenior))
+  )
+  
+  return spilloverReceivedEvent
+}
+
+export function createBackstopProvidedEvent(
+  amount: BigInt,
+  toSenior: Address
+): BackstopProvided {
+  let backstopProvidedEvent = changetype<BackstopProvided>(newMockEvent())
+  
+  backstopProvidedEvent.parameters = new Array()
+  
+  backstopProvidedEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  backstopProvidedEvent.parameters.push(
+    new ethereum.EventParam("toSenior", ethereum.Value.fromAddress(toSenior))
+  )
+  
+  return backstopProvidedEvent
+}
+
+export function createJuniorRebaseExecutedEvent(
+  newValue: BigInt,
+  effectiveReturn: BigInt
+): JuniorRebaseExecuted {
+  let juniorRebaseExecutedEvent = changetype<JuniorRebaseExecuted>(newMockEvent())
+  
+  juniorRebaseExecutedEvent.parameters = new Array()
+  
+  juniorRebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("newValue", ethereum.Value.fromUnsignedBigInt(newValue))
+  )
+  
+  juniorRebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("effectiveReturn", ethereum.Value.fromSignedBigInt(effectiveReturn))
+  )
+  
+  return juniorRebaseExecutedEvent
+}
+
+export function createCooldownInitiatedEvent(
+  user: Address,
+  timestamp: BigInt
+): CooldownInitiated {
+  let cooldownInitiatedEvent = changetype<CooldownInitiated>(newMockEvent())
+  
+  cooldownInitiatedEvent.parameters = new Array()
+  
+  cooldownInitiatedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  cooldownInitiatedEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return cooldownInitiatedEvent
+}
+
+export function createWithdrawalPenaltyChargedEvent(
+  user: Address,
+  penalty: BigInt
+): WithdrawalPenaltyCharged {
+  let withdrawalPenaltyChargedEvent = changetype<WithdrawalPenaltyCharged>(newMockEvent())
+  
+  withdrawalPenaltyChargedEvent.parameters = new Array()
+  
+  withdrawalPenaltyChargedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawalPenaltyChargedEvent.parameters.push(
+    new ethereum.EventParam("penalty", ethereum.Value.fromUnsignedBigInt(penalty))
+  )
+  
+  return withdrawalPenaltyChargedEvent
+}
+
+export function createVaultValueUpdatedEvent(
+  oldValue: BigInt,
+  newValue: BigInt,
+  profitBps: BigInt
+): VaultValueUpdated {
+  let vaultValueUpdatedEvent = changetype<VaultValueUpdated>(newMockEvent())
+  
+  vaultValueUpdatedEvent.parameters = new Array()
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("oldValue", ethereum.Value.fromUnsignedBigInt(oldValue))
+  )
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("newValue", ethereum.Value.fromUnsignedBigInt(newValue))
+  )
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("profitBps", ethereum.Value.fromSignedBigInt(profitBps))
+  )
+  
+  return vaultValueUpdatedEvent
+}
+
+export function createFeesCollectedEvent(
+  managementFee: BigInt,
+  performanceFee: BigInt
+): FeesCollected {
+  let feesCollectedEvent = changetype<FeesCollected>(newMockEvent())
+  
+  feesCollectedEvent.parameters = new Array()
+  
+  feesCollectedEvent.parameters.push(
+    new ethereum.EventParam("managementFee", ethereum.Value.fromUnsignedBigInt(managementFee))
+  )
+  
+  feesCollectedEvent.parameters.push(
+    new ethereum.EventParam("performanceFee", ethereum.Value.fromUnsignedBigInt(performanceFee))
+  )
+  
+  return feesCollectedEvent
+}
+
+export function createBGTClaimedEvent(
+  recipient: Address,
+  amount: BigInt
+): BGTClaimed {
+  let bGTClaimedEvent = changetype<BGTClaimed>(newMockEvent())
+  
+  bGTClaimedEvent.parameters = new Array()
+  
+  bGTClaimedEvent.parameters.push(
+    new ethereum.EventParam("recipient", ethereum.Value.fromAddress(recipient))
+  )
+  
+  bGTClaimedEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return bGTClaimedEvent
+}
+
+export function createWithdrawalFeeChargedEvent(
+  user: Address,
+  fee: BigInt,
+  netAmount: BigInt
+): WithdrawalFeeCharged {
+  let withdrawalFeeChargedEvent = changetype<WithdrawalFeeCharged>(newMockEvent())
+  
+  withdrawalFeeChargedEvent.parameters = new Array()
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("fee", ethereum.Value.fromUnsignedBigInt(fee))
+  )
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("netAmount", ethereum.Value.fromUnsignedBigInt(netAmount))
+  )
+  
+  return withdrawalFeeChargedEvent
+}
+
+export function createManagementFeeMintedEvent(
+  treasury: Address,
+  amount: BigInt,
+  timestamp: BigInt
+): ManagementFeeMinted {
+  let managementFeeMintedEvent = changetype<ManagementFeeMinted>(newMockEvent())
+  
+  managementFeeMintedEvent.parameters = new Array()
+  
+  managementFeeMintedEvent.parameters.push(
+    new ethereum.EventParam("treasury", ethereum.Value.fromAddress(treasury))
+  )
+  
+  managementFeeMintedEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  managementFeeMintedEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return managementFeeMintedEvent
+}
+
+export function createMgmtFeeScheduleUpdatedEvent(
+  oldSchedule: BigInt,
+  newSchedule: BigInt
+): MgmtFeeScheduleUpdated {
+  let mgmtFeeScheduleUpdatedEvent = changetype<MgmtFeeScheduleUpdated>(newMockEvent())
+  
+  mgmtFeeScheduleUpdatedEvent.parameters = new Array()
+  
+  mgmtFeeScheduleUpdatedEvent.parameters.push(
+    new ethereum.EventParam("oldSchedule", ethereum.Value.fromUnsignedBigInt(oldSchedule))
+  )
+  
+  mgmtFeeScheduleUpdatedEvent.parameters.push(
+    new ethereum.EventParam("newSchedule", ethereum.Value.fromUnsignedBigInt(newSchedule))
+  )
+  
+  return mgmtFeeScheduleUpdatedEvent
+}
+
+export function createAdminSetEvent(
+  previousAdmin: Address,
+  newAdmin: Address
+): AdminSet {
+  let adminSetEvent = changetype<AdminSet>(newMockEvent())
+  
+  adminSetEvent.parameters = new Array()
+  
+  adminSetEvent.parameters.push(
+    new ethereum.EventParam("previousAdmin", ethereum.Value.fromAddress(previousAdmin))
+  )
+  
+  adminSetEvent.parameters.push(
+    new ethereum.EventParam("newAdmin", ethereum.Value.fromAddress(newAdmin))
+  )
+  
+  return adminSetEvent
+}
+
+export function createAdminTransferredEvent(
+  previousAdmin: Address,
+  newAdmin: Address
+): AdminTransferred {
+  let adminTransferredEvent = changetype<AdminTransferred>(newMockEvent())
+  
+  adminTransferredEvent.parameters = new Array()
+  
+  adminTransferredEvent.parameters.push(
+    new ethereum.EventParam("previousAdmin", ethereum.Value.fromAddress(previousAdmin))
+  )
+  
+  adminTransferredEvent.parameters.push(
+    new ethereum.EventParam("newAdmin", ethereum.Value.fromAddress(newAdmin))
+  )
+  
+  return adminTransferredEvent
+}
+
+export function createSeederAddedEvent(
+  seeder: Address
+): SeederAdded {
+  let seederAddedEvent = changetype<SeederAdded>(newMockEvent())
+  
+  seederAddedEvent.parameters = new Array()
+  
+  seederAddedEvent.parameters.push(
+    new ethereum.EventParam("seeder", ethereum.Value.fromAddress(seeder))
+  )
+  
+  return seederAddedEvent
+}
+
+export function createSeederRevokedEvent(
+  seeder: Address
+): SeederRevoked {
+  let seederRevokedEvent = changetype<SeederRevoked>(newMockEvent())
+  
+  seederRevokedEvent.parameters = new Array()
+  
+  seederRevokedEvent.parameters.push(
+    new ethereum.EventParam("seeder", ethereum.Value.fromAddress(seeder))
+  )
+  
+  return seederRevokedEvent
+}
+
+export function createLiquidityManagerSetEvent(
+  liquidityManager: Address
+): LiquidityManagerSet {
+  let liquidityManagerSetEvent = changetype<LiquidityManagerSet>(newMockEvent())
+  
+  liquidityManagerSetEvent.parameters = new Array()
+  
+  liquidityManagerSetEvent.parameters.push(
+    new ethereum.EventParam("liquidityManager", ethereum.Value.fromAddress(liquidityManager))
+  )
+  
+  return liquidityManagerSetEvent
+}
+
+export function createPriceFeedManagerSetEvent(
+  priceFeedManager: Address
+): PriceFeedManagerSet {
+  let priceFeedManagerSetEvent = changetype<PriceFeedManagerSet>(newMockEvent())
+  
+  priceFeedManagerSetEvent.parameters = new Array()
+  
+  priceFeedManagerSetEvent.parameters.push(
+    new ethereum.EventParam("priceFeedManager", ethereum.Value.fromAddress(priceFeedManager))
+  )
+  
+  return priceFeedManagerSetEvent
+}
+
+export function createContractUpdaterSetEvent(
+  contractUpdater: Address
+): ContractUpdaterSet {
+  let contractUpdaterSetEvent = changetype<ContractUpdaterSet>(newMockEvent())
+  
+  contractUpdaterSetEvent.parameters = new Array()
+  
+  contractUpdaterSetEvent.parameters.push(
+    new ethereum.EventParam("contractUpdater", ethereum.Value.fromAddress(contractUpdater))
+  )
+  
+  return contractUpdaterSetEvent
+}
+
+export function createUpgradedEvent(
+  implementation: Address
+): Upgraded {
+  let upgradedEvent = changetype<Upgraded>(newMockEvent())
+  
+  upgradedEvent.parameters = new Array()
+  
+  upgradedEvent.parameters.push(
+    new ethereum.EventParam("implementation", ethereum.Value.fromAddress(implementation))
+  )
+  
+  return upgradedEvent
+}
+
+export function createInitializedEvent(
+  version: BigInt
+): Initialized {
+  let initializedEvent = changetype<Initialized>(newMockEvent())
+  
+  initializedEvent.parameters = new Array()
+  
+  initializedEvent.parameters.push(
+    new ethereum.EventParam("version", ethereum.Value.fromUnsignedBigInt(version))
+  )
+  
+  return initializedEvent
+}
+
+export function createKodiakHookUpdatedEvent(
+  newHook: Address
+): KodiakHookUpdated {
+  let kodiakHookUpdatedEvent = changetype<KodiakHookUpdated>(newMockEvent())
+  
+  kodiakHookUpdatedEvent.parameters = new Array()
+  
+  kodiakHookUpdatedEvent.parameters.push(
+    new ethereum.EventParam("newHook", ethereum.Value.fromAddress(newHook))
+  )
+  
+  return kodiakHookUpdatedEvent
+}
+
+export function createKodiakDeploymentEvent(
+  amount: BigInt,
+  lpReceived: BigInt,
+  timestamp: BigInt
+): KodiakDeployment {
+  let kodiakDeploymentEvent = changetype<KodiakDeployment>(newMockEvent())
+  
+  kodiakDeploymentEvent.parameters = new Array()
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("lpReceived", ethereum.Value.fromUnsignedBigInt(lpReceived))
+  )
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return kodiakDeploymentEvent
+}
+
+export function createKodiakInvestmentEvent(
+  island: Address,
+  tokenIn: Address,
+  amountIn: BigInt,
+  lpMinted: BigInt,
+  timestamp: BigInt
+): KodiakInvestment {
+  let kodiakInvestmentEvent = changetype<KodiakInvestment>(newMockEvent())
+  
+  kodiakInvestmentEvent.parameters = new Array()
+  
+  kodiakInvestmentEvent.parameters.push(
+    new ethereum.EventParam("island", ethereum.Value.fromAddress(island))
+  )
+  
+  kodiakInvestmentEvent.parameters.push(
+    new ethereum.EventParam("tokenIn", ethereum.Value.fromAddress(tokenIn))
+  )
+  
+  kodiakInvestmentEvent.parameters.push(
+    new ethereum.EventParam("amountIn", ethereum.Value.fromUnsignedBigInt(amountIn))
+  )
+  
+  kodiakInvestmentEvent.parameters.push(
+    new ethereum.EventParam("lpMinted", ethereum.Value.fromUnsignedBigInt(lpMinted))
+  )
+  
+  kodiakInvestmentEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return kodiakInvestmentEvent
+}
+
+export function createLPInvestmentEvent(
+  lp: Address,
+  amount: BigInt
+): LPInvestment {
+  let lPInvestmentEvent = changetype<LPInvestment>(newMockEvent())
+  
+  lPInvestmentEvent.parameters = new Array()
+  
+  lPInvestmentEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  lPInvestmentEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return lPInvestmentEvent
+}
+
+export function createLPTokensWithdrawnEvent(
+  lpToken: Address,
+  lp: Address,
+  amount: BigInt
+): LPTokensWithdrawn {
+  let lPTokensWithdrawnEvent = changetype<LPTokensWithdrawn>(newMockEvent())
+  
+  lPTokensWithdrawnEvent.parameters = new Array()
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return lPTokensWithdrawnEvent
+}
+
+export function createLPExitedToTokenEvent(
+  lpAmount: BigInt,
+  tokenOut: Address,
+  tokenReceived: BigInt,
+  timestamp: BigInt
+): LPExitedToToken {
+  let lPExitedToTokenEvent = changetype<LPExitedToToken>(newMockEvent())
+  
+  lPExitedToTokenEvent.parameters = new Array()
+  
+  lPExitedToTokenEvent.parameters.push(
+    new ethereum.EventParam("lpAmount", ethereum.Value.fromUnsignedBigInt(lpAmount))
+  )
+  
+  lPExitedToTokenEvent.parameters.push(
+    new ethereum.EventParam("tokenOut", ethereum.Value.fromAddress(tokenOut))
+  )
+  
+  lPExitedToTokenEvent.parameters.push(
+    new ethereum.EventParam("tokenReceived", ethereum.Value.fromUnsignedBigInt(tokenReceived))
+  )
+  
+  lPExitedToTokenEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return lPExitedToTokenEvent
+}
+
+export function createLPLiquidationExecutedEvent(
+  requested: BigInt,
+  received: BigInt,
+  minExpected: BigInt
+): LPLiquidationExecuted {
+  let lPLiquidationExecutedEvent = changetype<LPLiquidationExecuted>(newMockEvent())
+  
+  lPLiquidationExecutedEvent.parameters = new Array()
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("received", ethereum.Value.fromUnsignedBigInt(received))
+  )
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("minExpected", ethereum.Value.fromUnsignedBigInt(minExpected))
+  )
+  
+  return lPLiquidationExecutedEvent
+}
+
+export function createLiquidityFreedForWithdrawalEvent(
+  requested: BigInt,
+  freedFromLP: BigInt
+): LiquidityFreedForWithdrawal {
+  let liquidityFreedForWithdrawalEvent = changetype<LiquidityFreedForWithdrawal>(newMockEvent())
+  
+  liquidityFreedForWithdrawalEvent.parameters = new Array()
+  
+  liquidityFreedForWithdrawalEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  liquidityFreedForWithdrawalEvent.parameters.push(
+    new ethereum.EventParam("freedFromLP", ethereum.Value.fromUnsignedBigInt(freedFromLP))
+  )
+  
+  return liquidityFreedForWithdrawalEvent
+}
+
+export function createWhitelistedLPAddedEvent(
+  lp: Address
+): WhitelistedLPAdded {
+  let whitelistedLPAddedEvent = changetype<WhitelistedLPAdded>(newMockEvent())
+  
+  whitelistedLPAddedEvent.parameters = new Array()
+  
+  whitelistedLPAddedEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  return whitelistedLPAddedEvent
+}
+
+export function createWhitelistedLPRemovedEvent(
+  lp: Address
+): WhitelistedLPRemoved {
+  let whitelistedLPRemovedEvent = changetype<WhitelistedLPRemoved>(newMockEvent())
+  
+  whitelistedLPRemovedEvent.parameters = new Array()
+  
+  whitelistedLPRemovedEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  return whitelistedLPRemovedEvent
+}
+
+export function createWhitelistedLPTokenAddedEvent(
+  lpToken: Address
+): WhitelistedLPTokenAdded {
+  let whitelistedLPTokenAddedEvent = changetype<WhitelistedLPTokenAdded>(newMockEvent())
+  
+  whitelistedLPTokenAddedEvent.parameters = new Array()
+  
+  whitelistedLPTokenAddedEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  return whitelistedLPTokenAddedEvent
+}
+
+export function createWhitelistedLPTokenRemovedEvent(
+  lpToken: Address
+): WhitelistedLPTokenRemoved {
+  let whitelistedLPTokenRemovedEvent = changetype<WhitelistedLPTokenRemoved>(newMockEvent())
+  
+  whitelistedLPTokenRemovedEvent.parameters = new Array()
+  
+  whitelistedLPTokenRemovedEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  return whitelistedLPTokenRemovedEvent
+}
+
+export function createVaultSeededEvent(
+  lpToken: Address,
+  seedProvider: Address,
+  lpAmount: BigInt,
+  lpPrice: BigInt,
+  valueAdded: BigInt,
+  sharesMinted: BigInt
+): VaultSeeded {
+  let vaultSeededEvent = changetype<VaultSeeded>(newMockEvent())
+  
+  vaultSeededEvent.parameters = new Array()
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("seedProvider", ethereum.Value.fromAddress(seedProvider))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("lpAmount", ethereum.Value.fromUnsignedBigInt(lpAmount))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("lpPrice", ethereum.Value.fromUnsignedBigInt(lpPrice))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("valueAdded", ethereum.Value.fromUnsignedBigInt(valueAdded))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("sharesMinted", ethereum.Value.fromUnsignedBigInt(sharesMinted))
+  )
+  
+  return vaultSeededEvent
+}
+
+export function createReserveSeededWithTokenEvent(
+  token: Address,
+  seedProvider: Address,
+  tokenAmount: BigInt,
+  tokenPrice: BigInt,
+  valueAdded: BigInt,
+  sharesMinted: BigInt
+): ReserveSeededWithToken {
+  let reserveSeededWithTokenEvent = changetype<ReserveSeededWithToken>(newMockEvent())
+  
+  reserveSeededWithTokenEvent.parameters = new Array()
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("token", ethereum.Value.fromAddress(token))
+  )
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("seedProvider", ethereum.Value.fromAddress(seedProvider))
+  )
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("tokenAmount", ethereum.Value.fromUnsignedBigInt(tokenAmount))
+  )
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("tokenPrice", ethereum.Value.fromUnsignedBigInt(tokenPrice))
+  )
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("valueAdded", ethereum.Value.fromUnsignedBigInt(valueAdded))
+  )
+  
+  reserveSeededWithTokenEvent.parameters.push(
+    new ethereum.EventParam("sharesMinted", ethereum.Value.fromUnsignedBigInt(sharesMinted))
+  )
+  
+  return reserveSeededWithTokenEvent
+}
+
+export function createRewardVaultSetEvent(
+  oldVault: Address,
+  newVault: Address
+): RewardVaultSet {
+  let rewardVaultSetEvent = changetype<RewardVaultSet>(newMockEvent())
+  
+  rewardVaultSetEvent.parameters = new Array()
+  
+  rewardVaultSetEvent.parameters.push(
+    new ethereum.EventParam("oldVault", ethereum.Value.fromAddress(oldVault))
+  )
+  
+  rewardVaultSetEvent.parameters.push(
+    new ethereum.EventParam("newVault", ethereum.Value.fromAddress(newVault))
+  )
+  
+  return rewardVaultSetEvent
+}
+
+export function createStakedIntoRewardVaultEvent(
+  amount: BigInt
+): StakedIntoRewardVault {
+  let stakedIntoRewardVaultEvent = changetype<StakedIntoRewardVault>(newMockEvent())
+  
+  stakedIntoRewardVaultEvent.parameters = new Array()
+  
+  stakedIntoRewardVaultEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return stakedIntoRewardVaultEvent
+}
+
+export function createWithdrawnFromRewardVaultEvent(
+  amount: BigInt
+): WithdrawnFromRewardVault {
+  let withdrawnFromRewardVaultEvent = changetype<WithdrawnFromRewardVault>(newMockEvent())
+  
+  withdrawnFromRewardVaultEvent.parameters = new Array()
+  
+  withdrawnFromRewardVaultEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return withdrawnFromRewardVaultEvent
+}
+
+export function createTokenRescuedFromHookEvent(
+  token: Address,
+  amount: BigInt,
+  timestamp: BigInt
+): TokenRescuedFromHook {
+  let tokenRescuedFromHookEvent = changetype<TokenRescuedFromHook>(newMockEvent())
+  
+  tokenRescuedFromHookEvent.parameters = new Array()
+  
+  tokenRescuedFromHookEvent.parameters.push(
+    new ethereum.EventParam("token", ethereum.Value.fromAddress(token))
+  )
+  
+  tokenRescuedFromHookEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  tokenRescuedFromHookEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return tokenRescuedFromHookEvent
+}
+
+export function createStablecoinSwappedToTokenEvent(
+  stablecoin: Address,
+  tokenOut: Address,
+  amountIn: BigInt,
+  amountOut: BigInt,
+  timestamp: BigInt
+): StablecoinSwappedToToken {
+  let stablecoinSwappedToTokenEvent = changetype<StablecoinSwappedToToken>(newMockEvent())
+  
+  stablecoinSwappedToTokenEvent.parameters = new Array()
+  
+  stablecoinSwappedToTokenEvent.parameters.push(
+    new ethereum.EventParam("stablecoin", ethereum.Value.fromAddress(stablecoin))
+  )
+  
+  stablecoinSwappedToTokenEvent.parameters.push(
+    new ethereum.EventParam("tokenOut", ethereum.Value.fromAddress(tokenOut))
+  )
+  
+  stablecoinSwappedToTokenEvent.parameters.push(
+    new ethereum.EventParam("amountIn", ethereum.Value.fromUnsignedBigInt(amountIn))
+  )
+  
+  stablecoinSwappedToTokenEvent.parameters.push(
+    new ethereum.EventParam("amountOut", ethereum.Value.fromUnsignedBigInt(amountOut))
+  )
+  
+  stablecoinSwappedToTokenEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return stablecoinSwappedToTokenEvent
+}
+
+export function createHookTokenSwappedToStablecoinEvent(
+  tokenIn: Address,
+  amountIn: BigInt,
+  stablecoinOut: BigInt,
+  timestamp: BigInt
+): HookTokenSwappedToStablecoin {
+  let hookTokenSwappedToStablecoinEvent = changetype<HookTokenSwappedToStablecoin>(newMockEvent())
+  
+  hookTokenSwappedToStablecoinEvent.parameters = new Array()
+  
+  hookTokenSwappedToStablecoinEvent.parameters.push(
+    new ethereum.EventParam("tokenIn", ethereum.Value.fromAddress(tokenIn))
+  )
+  
+  hookTokenSwappedToStablecoinEvent.parameters.push(
+    new ethereum.EventParam("amountIn", ethereum.Value.fromUnsignedBigInt(amountIn))
+  )
+  
+  hookTokenSwappedToStablecoinEvent.parameters.push(
+    new ethereum.EventParam("stablecoinOut", ethereum.Value.fromUnsignedBigInt(stablecoinOut))
+  )
+  
+  hookTokenSwappedToStablecoinEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return hookTokenSwappedToStablecoinEvent
+}
+
+// Mappings fall back to event data when a view reverts, so tests start from reverting views
+// Hook events are emitted by the hook, not the vault
+export function createLPLiquidatedEvent(
+  hook: Address,
+  requested: BigInt,
+  lpBurned: BigInt,
+  honeyReceived: BigInt,
+  wbtcKept: BigInt
+): LPLiquidated {
+  let lPLiquidatedEvent = changetype<LPLiquidated>(newMockEvent())
+  lPLiquidatedEvent.address = hook
+  
+  lPLiquidatedEvent.parameters = new Array()
+  
+  lPLiquidatedEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  lPLiquidatedEvent.parameters.push(
+    new ethereum.EventParam("lpBurned", ethereum.Value.fromUnsignedBigInt(lpBurned))
+  )
+  
+  lPLiquidatedEvent.parameters.push(
+    new ethereum.EventParam("honeyReceived", ethereum.Value.fromUnsignedBigInt(honeyReceived))
+  )
+  
+  lPLiquidatedEvent.parameters.push(
+    new ethereum.EventParam("wbtcKept", ethereum.Value.fromUnsignedBigInt(wbtcKept))
+  )
+  
+  return lPLiquidatedEvent
+}
+
+export function createAggregatorWhitelistedEvent(
+  hook: Address,
+  target: Address,
+  status: boolean
+): AggregatorWhitelisted {
+  let aggregatorWhitelistedEvent = changetype<AggregatorWhitelisted>(newMockEvent())
+  aggregatorWhitelistedEvent.address = hook
+  
+  aggregatorWhitelistedEvent.parameters = new Array()
+  
+  aggregatorWhitelistedEvent.parameters.push(
+    new ethereum.EventParam("target", ethereum.Value.fromAddress(target))
+  )
+  
+  aggregatorWhitelistedEvent.parameters.push(
+    new ethereum.EventParam("status", ethereum.Value.fromBoolean(status))
+  )
+  
+  return aggregatorWhitelistedEvent
+}
+
+export function createAggregatorZapExecutedEvent(
+  hook: Address,
+  target: Address,
+  value: BigInt,
+  selector: Bytes
+): AggregatorZapExecuted {
+  let aggregatorZapExecutedEvent = changetype<AggregatorZapExecuted>(newMockEvent())
+  aggregatorZapExecutedEvent.address = hook
+  
+  aggregatorZapExecutedEvent.parameters = new Array()
+  
+  aggregatorZapExecutedEvent.parameters.push(
+    new ethereum.EventParam("target", ethereum.Value.fromAddress(target))
+  )
+  
+  aggregatorZapExecutedEvent.parameters.push(
+    new ethereum.EventParam("value", ethereum.Value.fromUnsignedBigInt(value))
+  )
+  
+  aggregatorZapExecutedEvent.parameters.push(
+    new ethereum.EventParam("selector", ethereum.Value.fromFixedBytes(selector))
+  )
+  
+  return aggregatorZapExecutedEvent
+}
+
+export function createSlippageUpdatedEvent(
+  hook: Address,
+  minSharesPerAssetBps: BigInt,
+  minAssetOutBps: BigInt
+): SlippageUpdated {
+  let slippageUpdatedEvent = changetype<SlippageUpdated>(newMockEvent())
+  slippageUpdatedEvent.address = hook
+  
+  slippageUpdatedEvent.parameters = new Array()
+  
+  slippageUpdatedEvent.parameters.push(
+    new ethereum.EventParam("minSharesPerAssetBps", ethereum.Value.fromUnsignedBigInt(minSharesPerAssetBps))
+  )
+  
+  slippageUpdatedEvent.parameters.push(
+    new ethereum.EventParam("minAssetOutBps", ethereum.Value.fromUnsignedBigInt(minAssetOutBps))
+  )
+  
+  return slippageUpdatedEvent
+}
+
+export function createRouterUpdatedEvent(hook: Address, router: Address): RouterUpdated {
+  let routerUpdatedEvent = changetype<RouterUpdated>(newMockEvent())
+  routerUpdatedEvent.address = hook
+  
+  routerUpdatedEvent.parameters = new Array()
+  
+  routerUpdatedEvent.parameters.push(
+    new ethereum.EventParam("router", ethereum.Value.fromAddress(router))
+  )
+  
+  return routerUpdatedEvent
+}
+
+export function mockRevertingViews(contract: Address, signatures: string[]): void {
+  for (let i = 0; i < signatures.length; i++) {
+    let name = signatures[i].slice(0, signatures[i].indexOf("("))
+    createMockedFunction(contract, name, signatures[i]).reverts()
+  }
+}
+
+export function mockUint256View(contract: Address, signature: string, value: BigInt): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromUnsignedBigInt(value)])
+}
+
+export function mockAddressView(contract: Address, signature: string, value: Address): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromAddress(value)])
+}
@@ -0,0 +1,619 @@
+import {
+  assert,
+  beforeEach,
+  clearStore,
+  dataSourceMock,
+  describe,
+  newMockEvent,
+  test
+} from "matchstick-as"
+import { Address, BigInt, Bytes, DataSourceContext, ethereum } from "@graphprotocol/graph-ts"
+import {
+  handleDeposit,
+  handleLegacyDeposit,
+  handleWithdraw,
+  handleLegacyWithdraw,
+  handleTransfer,
+  handleSpilloverReceived,
+  handleBackstopProvided,
+  handleJuniorRebase,
+  handleCooldownInitiated,
+  handleWithdrawalPenalty,
+  handleVaultValueUpdated,
+  handleFeesCollected,
+  handleBGTClaimed,
+  handleWithdrawalFeeCharged,
+  handleManagementFeeMinted,
+  handleMgmtFeeScheduleUpdated,
+  handleAdminSet,
+  handleAdminTransferred,
+  handleSeederAdded,
+  handleSeederRevoked,
+  handleLiquidityManagerSet,
+  handlePriceFeedManagerSet,
+  handleContractUpdaterSet,
+  handleUpgraded,
+  handleInitialized,
+  handleKodiakHookUpdated,
+  handleStartBlock,
+  handleKodiakDeployment,
+  handleKodiakInvestment,
+  handleLPInvestment,
+  handleLPTokensWithdrawn,
+  handleLPExitedToToken,
+  handleLPLiquidationExecuted,
+  handleLiquidityFreedForWithdrawal,
+  handleWhitelistedLPAdded,
+  handleWhitelistedLPRemoved,
+  handleWhitelistedLPTokenAdded,
+  handleWhitelistedLPTokenRemoved,
+  handleVaultSeeded,
+  handleReserveSeededWithToken,
+  handleRewardVaultSet,
+  handleStakedIntoRewardVault,
+  handleWithdrawnFromRewardVault,
+  handleStablecoinSwappedToToken,
+  handleHookTokenSwappedToStablecoin,
+  handleTokenRescuedFromHook
+} from "../src/mapping"
+import {
+  handleLPLiquidated,
+  handleAggregatorWhitelisted,
+  handleAggregatorZapExecuted,
+  handleSlippageUpdated,
+  handleRouterUpdated
+} from "../src/hook"
+import {
+  createDepositEvent,
+  createLegacyDepositEvent,
+  createWithdrawEvent,
+  createLegacyWithdrawEvent,
+  createTransferEvent,
+  createSpilloverReceivedEvent,
+  createBackstopProvidedEvent,
+  createJuniorRebaseExecutedEvent,
+  createCooldownInitiatedEvent,
+  createWithdrawalPenaltyChargedEvent,
+  createVaultValueUpdatedEvent,
+  createFeesCollectedEvent,
+  createBGTClaimedEvent,
+  createWithdrawalFeeChargedEvent,
+  createManagementFeeMintedEvent,
+  createMgmtFeeScheduleUpdatedEvent,
+  createAdminSetEvent,
+  createAdminTransferredEvent,
+  createSeederAddedEvent,
+  createSeederRevokedEvent,
+  createLiquidityManagerSetEvent,
+  createPriceFeedManagerSetEvent,
+  createContractUpdaterSetEvent,
+  createUpgradedEvent,
+  createInitializedEvent,
+  createKodiakHookUpdatedEvent,
+  createKodiakDeploymentEvent,
+  createKodiakInvestmentEvent,
+  createLPInvestmentEvent,
+  createLPTokensWithdrawnEvent,
+  createLPExitedToTokenEvent,
+  createLPLiquidationExecutedEvent,
+  createLiquidityFreedForWithdrawalEvent,
+  createWhitelistedLPAddedEvent,
+  createWhitelistedLPRemovedEvent,
+  createWhitelistedLPTokenAddedEvent,
+  createWhitelistedLPTokenRemovedEvent,
+  createVaultSeededEvent,
+  createReserveSeededWithTokenEvent,
+  createRewardVaultSetEvent,
+  createStakedIntoRewardVaultEvent,
+  createWithdrawnFromRewardVaultEvent,
+  createStablecoinSwappedToTokenEvent,
+  createHookTokenSwappedToStablecoinEvent,
+  createTokenRescuedFromHookEvent,
+  createLPLiquidatedEvent,
+  createAggregatorWhitelistedEvent,
+  createAggregatorZapExecutedEvent,
+  createSlippageUpdatedEvent,
+  createRouterUpdatedEvent,
+  mockAddressView,
+  mockRevertingViews,
+  mockUint256View
+} from "./junior-vault-utils"
+
+// newMockEvent() emits from this address and reuses it as the transaction hash
+let VAULT = Address.fromString("0xa16081f360e3847006db660bae1c6d1b2e17ec2a")
+let TX_HASH = "0xa16081f360e3847006db660bae1c6d1b2e17ec2a"
+
+let ALICE = Address.fromString("0x00000000000000000000000000000000000000a1")
+let BOB = Address.fromString("0x00000000000000000000000000000000000000b2")
+let TREASURY = Address.fromString("0x00000000000000000000000000000000000000c3")
+let SENIOR = Address.fromString("0x00000000000000000000000000000000000000c4")
+let HOOK = Address.fromString("0x00000000000000000000000000000000000000d1")
+let ISLAND = Address.fromString("0x00000000000000000000000000000000000000d3")
+let ROUTER = Address.fromString("0x00000000000000000000000000000000000000d4")
+let AGGREGATOR = Address.fromString("0x00000000000000000000000000000000000000d5")
+let LP = Address.fromString("0x00000000000000000000000000000000000000e1")
+let LP_TOKEN = Address.fromString("0x00000000000000000000000000000000000000e2")
+let TOKEN = Address.fromString("0x00000000000000000000000000000000000000e3")
+let STABLECOIN = Address.fromString("0x00000000000000000000000000000000000000e4")
+let REWARD_VAULT = Address.fromString("0x00000000000000000000000000000000000000f1")
+let IMPLEMENTATION = Address.fromString("0x0000000000000000000000000000000000000101")
+
+let PRECISION = BigInt.fromString("1000000000000000000")
+
+let VAULT_VIEWS = [
+  "kodiakHook():(address)",
+  "stablecoin():(address)",
+  "totalAssets():(uint256)",
+  "totalSupply():(uint256)"
+]
+let HOOK_VIEWS = [
+  "island():(address)",
+  "router():(address)",
+  "wbera():(address)",
+  "minSharesPerAssetBps():(uint256)",
+  "minAssetOutBps():(uint256)",
+  "safetyMultiplier():(uint256)",
+  "getIslandLPBalance():(uint256)"
+]
+
+function eventId(logIndex: i32): string {
+  return TX_HASH + "-" + logIndex.toString()
+}
+
+function at<T extends ethereum.Event>(event: T, logIndex: i32): T {
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+function amount(value: i32): BigInt {
+  return BigInt.fromI32(value)
+}
+
+beforeEach(() => {
+  clearStore()
+  mockRevertingViews(VAULT, VAULT_VIEWS)
+  mockRevertingViews(Address.zero(), HOOK_VIEWS)
+  mockRevertingViews(HOOK, HOOK_VIEWS)
+})
+
+describe("Deposits", () => {
+  test("counts the sender and owner as users and credits the owner", () => {
+    handleDeposit(at(createDepositEvent(BOB, ALICE, amount(100), amount(100)), 1))
+
+    assert.entityCount("User", 2)
+    assert.fieldEquals("ProtocolStats", "protocol", "totalUsers", "2")
+    assert.fieldEquals("Deposit", eventId(1), "sender", BOB.toHexString())
+    assert.fieldEquals("Deposit", eventId(1), "owner", ALICE.toHexString())
+    assert.fieldEquals("Deposit", eventId(1), "user", ALICE.toHexString())
+    assert.fieldEquals("User", ALICE.toHexString(), "totalDeposited", "100")
+    assert.fieldEquals("User", BOB.toHexString(), "totalDeposited", "0")
+  })
+
+  test("accumulates totals per user, protocol and period", () => {
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(100), amount(100)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(200), amount(200)), 2))
+    handleLegacyDeposit(at(createLegacyDepositEvent(BOB, amount(300), amount(300)), 3))
+
+    assert.entityCount("Deposit", 3)
+    assert.fieldEquals("Deposit", eventId(3), "sender", BOB.toHexString())
+    assert.fieldEquals("Deposit", eventId(3), "owner", BOB.toHexString())
+    assert.fieldEquals("User", ALICE.toHexString(), "totalDeposited", "300")
+    assert.fieldEquals("User", ALICE.toHexString(), "costBasis", "300")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalUsers", "2")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalDeposits", "600")
+    assert.fieldEquals("VaultHourSnapshot", "0", "deposits", "600")
+    assert.fieldEquals("VaultDaySnapshot", "0", "netFlow", "600")
+  })
+})
+
+describe("Withdrawals and transfers", () => {
+  test("realizes PnL for the owner net of fee and links the penalty", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(1000), amount(1000)), 2))
+    handleTransfer(at(createTransferEvent(ALICE, Address.zero(), amount(500)), 3))
+    handleWithdrawalFeeCharged(at(createWithdrawalFeeChargedEvent(ALICE, amount(10), amount(540)), 4))
+    handleWithdrawalPenalty(at(createWithdrawalPenaltyChargedEvent(ALICE, amount(10)), 5))
+    handleWithdraw(at(createWithdrawEvent(BOB, BOB, ALICE, amount(530), amount(500)), 6))
+
+    assert.fieldEquals("Withdrawal", eventId(6), "sender", BOB.toHexString())
+    assert.fieldEquals("Withdrawal", eventId(6), "receiver", BOB.toHexString())
+    assert.fieldEquals("Withdrawal", eventId(6), "owner", ALICE.toHexString())
+    assert.fieldEquals("Withdrawal", eventId(6), "costBasis", "500")
+    assert.fieldEquals("Withdrawal", eventId(6), "proceeds", "540")
+    assert.fieldEquals("Withdrawal", eventId(6), "realizedPnL", "40")
+    assert.fieldEquals("Penalty", eventId(5), "withdrawal", eventId(6))
+    assert.fieldEquals("Penalty", eventId(5), "effectiveRateBps", "185")
+    assert.fieldEquals("User", ALICE.toHexString(), "totalWithdrawn", "530")
+    assert.fieldEquals("User", ALICE.toHexString(), "totalFeesPaid", "10")
+    assert.fieldEquals("User", ALICE.toHexString(), "shareBalance", "500")
+    assert.fieldEquals("User", BOB.toHexString(), "totalWithdrawn", "0")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalWithdrawals", "530")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalWithdrawalFees", "10")
+  })
+
+  test("nets the owner's fee when other logs sit between it and Withdraw", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleTransfer(at(createTransferEvent(ALICE, Address.zero(), amount(500)), 2))
+    handleWithdrawalFeeCharged(at(createWithdrawalFeeChargedEvent(ALICE, amount(10), amount(490)), 3))
+    handleWithdrawalFeeCharged(at(createWithdrawalFeeChargedEvent(BOB, amount(20), amount(180)), 4))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(1000), amount(500), amount(0)), 5))
+    handleWithdraw(at(createWithdrawEvent(ALICE, ALICE, ALICE, amount(500), amount(500)), 9))
+
+    assert.fieldEquals("Withdrawal", eventId(9), "proceeds", "490")
+    assert.fieldEquals("Withdrawal", eventId(9), "realizedPnL", "490")
+    assert.fieldEquals("User", BOB.toHexString(), "pendingWithdrawalFee", eventId(4))
+  })
+
+  test("applies the legacy Withdraw event to a single user", () => {
+    handleLegacyWithdraw(at(createLegacyWithdrawEvent(ALICE, amount(100), amount(100)), 1))
+
+    assert.fieldEquals("Withdrawal", eventId(1), "receiver", ALICE.toHexString())
+    assert.fieldEquals("Withdrawal", eventId(1), "owner", ALICE.toHexString())
+    assert.fieldEquals("User", ALICE.toHexString(), "totalWithdrawn", "100")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalUsers", "1")
+  })
+
+  test("moves cost basis and holder counts between users", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(1000), amount(1000)), 2))
+    handleTransfer(at(createTransferEvent(ALICE, BOB, amount(250)), 3))
+
+    assert.fieldEquals("Transfer", eventId(3), "costBasis", "250")
+    assert.fieldEquals("User", ALICE.toHexString(), "shareBalance", "750")
+    assert.fieldEquals("User", BOB.toHexString(), "costBasis", "250")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalHolders", "2")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalShares", "1000")
+  })
+
+  test("starts a pending cooldown", () => {
+    handleCooldownInitiated(at(createCooldownInitiatedEvent(ALICE, amount(1000)), 1))
+
+    assert.fieldEquals("CooldownState", ALICE.toHexString(), "status", "PENDING")
+    assert.fieldEquals("CooldownState", ALICE.toHexString(), "maturityTime", "605800")
+  })
+})
+
+describe("Vault value and returns", () => {
+  test("prices shares from vault value over total shares", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(0), amount(2000), amount(0)), 2))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "2000")
+    assert.fieldEquals("ProtocolStats", "protocol", "idleCapital", "2000")
+    assert.fieldEquals("ProtocolStats", "protocol", "sharePrice", "2000000000000000000")
+  })
+
+  test("keeps the share price through deposits and withdrawals between value updates", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(0), amount(1000), amount(0)), 2))
+    handleTransfer(at(createTransferEvent(Address.zero(), BOB, amount(1000)), 3))
+    handleDeposit(at(createDepositEvent(BOB, BOB, amount(1000), amount(1000)), 4))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "2000")
+    assert.fieldEquals("ProtocolStats", "protocol", "idleCapital", "2000")
+    assert.fieldEquals("ProtocolStats", "protocol", "sharePrice", PRECISION.toString())
+
+    handleTransfer(at(createTransferEvent(ALICE, Address.zero(), amount(500)), 5))
+    handleWithdraw(at(createWithdrawEvent(ALICE, ALICE, ALICE, amount(500), amount(500)), 6))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "1500")
+    assert.fieldEquals("ProtocolStats", "protocol", "idleCapital", "1500")
+    assert.fieldEquals("ProtocolStats", "protocol", "sharePrice", PRECISION.toString())
+    assert.fieldEquals("VaultHourSnapshot", "0", "sharePrice", PRECISION.toString())
+  })
+
+  test("moves vault value with spillovers and backstops", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(0), amount(1000), amount(0)), 2))
+    handleSpilloverReceived(at(createSpilloverReceivedEvent(amount(300), SENIOR), 3))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "1300")
+    assert.fieldEquals("ProtocolStats", "protocol", "sharePrice", "1300000000000000000")
+
+    handleBackstopProvided(at(createBackstopProvidedEvent(amount(500), SENIOR), 4))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "800")
+    assert.fieldEquals("ProtocolStats", "protocol", "sharePrice", "800000000000000000")
+  })
+
+  test("compounds a rebase return once per transaction", () => {
+    let effectiveReturn = BigInt.fromString("10000000000000000")
+    handleJuniorRebase(at(createJuniorRebaseExecutedEvent(amount(1010), effectiveReturn), 1))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(1000), amount(1010), amount(100)), 2))
+
+    assert.fieldEquals("JuniorRebase", eventId(1), "newValue", "1010")
+    assert.fieldEquals("YieldStats", VAULT.toHexString(), "yieldIndex", "1010000000000000000")
+  })
+
+  test("attaches one vault state per block read from contract views", () => {
+    mockUint256View(VAULT, "totalAssets():(uint256)", amount(3000))
+    mockUint256View(VAULT, "totalSupply():(uint256)", amount(1000))
+
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(100), amount(100)), 1))
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(0), amount(3000), amount(0)), 2))
+
+    let stateId = VAULT.toHexString() + "-1"
+    assert.entityCount("VaultStateAtBlock", 1)
+    assert.fieldEquals("VaultValue", eventId(2), "vaultState", stateId)
+    assert.fieldEquals("VaultStateAtBlock", stateId, "pricePerShare", "3000000000000000000")
+  })
+
+  test("prices an empty vault at one", () => {
+    mockUint256View(VAULT, "totalAssets():(uint256)", amount(0))
+    mockUint256View(VAULT, "totalSupply():(uint256)", amount(0))
+
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(100), amount(100)), 1))
+
+    assert.fieldEquals("VaultStateAtBlock", VAULT.toHexString() + "-1", "pricePerShare", PRECISION.toString())
+  })
+
+  test("totals spillovers received and backstops provided", () => {
+    handleSpilloverReceived(at(createSpilloverReceivedEvent(amount(300), SENIOR), 1))
+    handleBackstopProvided(at(createBackstopProvidedEvent(amount(120), SENIOR), 2))
+
+    assert.fieldEquals("SpilloverReceived", eventId(1), "fromSenior", SENIOR.toHexString())
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSpilloverReceived", "300")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalBackstopProvided", "120")
+    assert.fieldEquals("VaultHourSnapshot", "0", "spilloverReceived", "300")
+    assert.fieldEquals("VaultDaySnapshot", "0", "backstopProvided", "120")
+  })
+})
+
+describe("Fees", () => {
+  test("attributes minted management fees to the treasury", () => {
+    handleManagementFeeMinted(at(createManagementFeeMintedEvent(TREASURY, amount(50), amount(1)), 1))
+    handleFeesCollected(at(createFeesCollectedEvent(amount(5), amount(0)), 2))
+
+    assert.fieldEquals("ProtocolStats", "protocol", "treasury", TREASURY.toHexString())
+    assert.fieldEquals("Treasury", TREASURY.toHexString(), "totalManagementFees", "55")
+    assert.fieldEquals("FeeLedgerEntry", eventId(1), "treasury", TREASURY.toHexString())
+    assert.notInStore("FeeLedgerEntry", eventId(2) + "-performance")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalManagementFees", "55")
+  })
+
+  test("tracks the management fee schedule", () => {
+    handleMgmtFeeScheduleUpdated(at(createMgmtFeeScheduleUpdatedEvent(amount(0), amount(200)), 1))
+
+    assert.fieldEquals("FeeScheduleChange", eventId(1), "newSchedule", "200")
+    assert.fieldEquals("ProtocolStats", "protocol", "mgmtFeeSchedule", "200")
+  })
+})
+
+describe("Reward vault", () => {
+  test("tracks stake balance and BGT per staked unit", () => {
+    handleRewardVaultSet(at(createRewardVaultSetEvent(Address.zero(), REWARD_VAULT), 1))
+    handleStakedIntoRewardVault(at(createStakedIntoRewardVaultEvent(amount(500)), 2))
+    handleWithdrawnFromRewardVault(at(createWithdrawnFromRewardVaultEvent(amount(100)), 3))
+    handleBGTClaimed(at(createBGTClaimedEvent(ALICE, amount(40)), 4))
+
+    assert.fieldEquals("RewardVaultPosition", VAULT.toHexString(), "stakedAmount", "400")
+    assert.fieldEquals("BGTRecipient", ALICE.toHexString(), "claimCount", "1")
+    assert.fieldEquals("RewardVaultDayData", "0", "bgtPerStakedUnit", "100000000000000000")
+  })
+})
+
+describe("Roles and upgrades", () => {
+  test("tracks current roles and every assignment", () => {
+    handleAdminSet(at(createAdminSetEvent(Address.zero(), ALICE), 1))
+    handleAdminTransferred(at(createAdminTransferredEvent(ALICE, BOB), 2))
+    handleSeederAdded(at(createSeederAddedEvent(ALICE), 3))
+    handleSeederAdded(at(createSeederAddedEvent(BOB), 4))
+    handleSeederRevoked(at(createSeederRevokedEvent(ALICE), 5))
+    handleLiquidityManagerSet(at(createLiquidityManagerSetEvent(ALICE), 6))
+    handlePriceFeedManagerSet(at(createPriceFeedManagerSetEvent(BOB), 7))
+    handleContractUpdaterSet(at(createContractUpdaterSetEvent(ALICE), 8))
+
+    assert.entityCount("RoleAssignment", 8)
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "admin", BOB.toHexString())
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "seeders", "[" + BOB.toHexString() + "]")
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "contractUpdater", ALICE.toHexString())
+  })
+
+  test("tags entities with the active implementation", () => {
+    handleUpgraded(at(createUpgradedEvent(IMPLEMENTATION), 1))
+    handleInitialized(at(createInitializedEvent(amount(2)), 2))
+    handleDeposit(at(createDepositEvent(ALICE, ALICE, amount(100), amount(100)), 3))
+
+    assert.fieldEquals("Implementation", IMPLEMENTATION.toHexString(), "initializedVersion", "2")
+    assert.fieldEquals("Deposit", eventId(3), "implementation", IMPLEMENTATION.toHexString())
+  })
+})
+
+describe("LP positions", () => {
+  beforeEach(() => {
+    mockAddressView(HOOK, "island():(address)", ISLAND)
+    mockUint256View(HOOK, "getIslandLPBalance():(uint256)", amount(700))
+  })
+
+  test("keeps Kodiak deployments, investments and exits on the island position", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleKodiakDeployment(at(createKodiakDeploymentEvent(amount(1000), amount(500), amount(1)), 2))
+    handleKodiakInvestment(at(createKodiakInvestmentEvent(ISLAND, TOKEN, amount(400), amount(200), amount(1)), 3))
+    handleLPExitedToToken(at(createLPExitedToTokenEvent(amount(100), TOKEN, amount(190), amount(1)), 4))
+
+    let positionId = VAULT.toHexString() + "-" + ISLAND.toHexString()
+    assert.dataSourceExists("KodiakVaultHook", HOOK.toHexString())
+    assert.fieldEquals("LPPosition", positionId, "deploymentCount", "2")
+    assert.fieldEquals("LPPosition", positionId, "capitalDeployed", "1400")
+    assert.fieldEquals("LPPosition", positionId, "capitalReturned", "190")
+    assert.fieldEquals("LPPosition", positionId, "lpHeld", "700")
+    assert.fieldEquals("LPExit", eventId(4), "type", "EXIT_TO_TOKEN")
+    assert.fieldEquals("ProtocolStats", "protocol", "deployedCapital", "1210")
+  })
+
+  test("records liquidation slippage against the release", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleLPLiquidationExecuted(at(createLPLiquidationExecutedEvent(amount(200), amount(190), amount(180)), 2))
+    handleLiquidityFreedForWithdrawal(at(createLiquidityFreedForWithdrawalEvent(amount(200), amount(190)), 3))
+
+    assert.fieldEquals("LPLiquidation", eventId(2), "realizedSlippageBps", "500")
+    assert.fieldEquals("LPLiquidation", eventId(2), "minExpectedHeadroom", "10")
+    assert.fieldEquals("LiquidityRelease", TX_HASH, "requested", "200")
+  })
+
+  test("links LP investments and withdrawals to their whitelist entries", () => {
+    handleWhitelistedLPAdded(at(createWhitelistedLPAddedEvent(LP), 1))
+    handleWhitelistedLPTokenAdded(at(createWhitelistedLPTokenAddedEvent(LP_TOKEN), 2))
+    handleLPInvestment(at(createLPInvestmentEvent(LP, amount(500)), 3))
+    handleLPTokensWithdrawn(at(createLPTokensWithdrawnEvent(LP_TOKEN, LP, amount(200)), 4))
+    handleWhitelistedLPRemoved(at(createWhitelistedLPRemovedEvent(LP), 5))
+    handleWhitelistedLPTokenRemoved(at(createWhitelistedLPTokenRemovedEvent(LP_TOKEN), 6))
+
+    assert.fieldEquals("LPDeployment", eventId(3), "whitelistEntry", VAULT.toHexString() + "-LP-" + LP.toHexString())
+    assert.fieldEquals("LPExit", eventId(4), "whitelistEntry", VAULT.toHexString() + "-LP-" + LP.toHexString())
+    assert.entityCount("WhitelistChange", 4)
+    assert.fieldEquals("ProtocolStats", "protocol", "whitelistedLPs", "0")
+    assert.fieldEquals("ProtocolStats", "protocol", "whitelistedLPTokens", "0")
+  })
+})
+
+describe("Kodiak hook", () => {
+  test("templates a hook set before the start block and indexes its events", () => {
+    dataSourceMock.setAddress(VAULT.toHexString())
+    mockAddressView(VAULT, "kodiakHook():(address)", HOOK)
+    mockAddressView(HOOK, "island():(address)", ISLAND)
+    handleStartBlock(newMockEvent().block)
+    dataSourceMock.resetValues()
+
+    let hook = HOOK.toHexString()
+    assert.dataSourceExists("KodiakVaultHook", hook)
+    assert.fieldEquals("ProtocolStats", "protocol", "kodiakHook", hook)
+    assert.fieldEquals("KodiakHook", hook, "vault", VAULT.toHexString())
+    assert.fieldEquals("KodiakHook", hook, "island", ISLAND.toHexString())
+    assert.fieldEquals("KodiakHook", hook, "isActive", "true")
+    assert.fieldEquals("KodiakHook", hook, "createdAtTransaction", "null")
+
+    handleSlippageUpdated(at(createSlippageUpdatedEvent(HOOK, amount(9900), amount(9800)), 1))
+
+    assert.fieldEquals("KodiakHook", hook, "minSharesPerAssetBps", "9900")
+    assert.fieldEquals("KodiakHook", hook, "minAssetOutBps", "9800")
+    assert.fieldEquals("HookConfigChange", eventId(1), "type", "SLIPPAGE")
+  })
+
+  test("tracks nothing when the vault has no hook at the start block", () => {
+    dataSourceMock.setAddress(VAULT.toHexString())
+    mockAddressView(VAULT, "kodiakHook():(address)", Address.zero())
+    handleStartBlock(newMockEvent().block)
+    dataSourceMock.resetValues()
+
+    assert.entityCount("KodiakHook", 0)
+    assert.entityCount("ProtocolStats", 0)
+  })
+
+  test("records liquidations, zaps and config changes against the hook", () => {
+    mockAddressView(HOOK, "island():(address)", ISLAND)
+    mockUint256View(HOOK, "getIslandLPBalance():(uint256)", amount(400))
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleLPLiquidated(at(createLPLiquidatedEvent(HOOK, amount(200), amount(100), amount(190), amount(5)), 2))
+    handleLPLiquidationExecuted(at(createLPLiquidationExecutedEvent(amount(200), amount(190), amount(180)), 3))
+    handleAggregatorWhitelisted(at(createAggregatorWhitelistedEvent(HOOK, AGGREGATOR, true), 4))
+    let selector = Bytes.fromHexString("0x12345678")
+    handleAggregatorZapExecuted(at(createAggregatorZapExecutedEvent(HOOK, AGGREGATOR, amount(50), selector), 5))
+    handleRouterUpdated(at(createRouterUpdatedEvent(HOOK, ROUTER), 6))
+
+    let hook = HOOK.toHexString()
+    let aggregator = hook + "-" + AGGREGATOR.toHexString()
+    assert.fieldEquals("KodiakHook", hook, "totalLiquidations", "1")
+    assert.fieldEquals("KodiakHook", hook, "totalLPBurned", "100")
+    assert.fieldEquals("KodiakHook", hook, "totalHoneyReceived", "190")
+    assert.fieldEquals("KodiakHook", hook, "totalWbtcKept", "5")
+    assert.fieldEquals("KodiakHook", hook, "pendingLiquidation", "null")
+    assert.fieldEquals("LPLiquidation", eventId(3), "hookLiquidation", eventId(2))
+    assert.fieldEquals("KodiakHook", hook, "totalZaps", "1")
+    assert.fieldEquals("AggregatorTarget", aggregator, "isWhitelisted", "true")
+    assert.fieldEquals("AggregatorTarget", aggregator, "zapCount", "1")
+    assert.fieldEquals("AggregatorTarget", aggregator, "totalValue", "50")
+    assert.fieldEquals("AggregatorZap", eventId(5), "selector", "0x12345678")
+    assert.fieldEquals("KodiakHook", hook, "router", ROUTER.toHexString())
+    assert.entityCount("HookConfigChange", 2)
+  })
+})
+
+describe("Seeding", () => {
+  test("credits LP and token seeds to the seeder", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(500)), 1))
+    handleVaultSeeded(
+      at(createVaultSeededEvent(LP_TOKEN, ALICE, amount(250), PRECISION.times(amount(2)), amount(500), amount(500)), 2)
+    )
+    handleReserveSeededWithToken(
+      at(createReserveSeededWithTokenEvent(TOKEN, BOB, amount(300), PRECISION, amount(300), amount(300)), 3)
+    )
+
+    assert.fieldEquals("Seed", eventId(2), "transfer", eventId(1))
+    assert.fieldEquals("Seed", eventId(3), "type", "TOKEN")
+    assert.fieldEquals("User", ALICE.toHexString(), "costBasis", "500")
+    assert.fieldEquals("User", BOB.toHexString(), "costBasis", "300")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSeeds", "2")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSeededLPValue", "500")
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "800")
+  })
+})
+
+describe("Incidents", () => {
+  test("records tokens rescued from the hook", () => {
+    handleTokenRescuedFromHook(at(createTokenRescuedFromHookEvent(TOKEN, amount(75), amount(1)), 1))
+
+    assert.fieldEquals("Incident", eventId(1), "type", "TOKEN_RESCUED_FROM_HOOK")
+    assert.fieldEquals("Incident", eventId(1), "severity", "MEDIUM")
+    assert.fieldEquals("Incident", eventId(1), "token", TOKEN.toHexString())
+    assert.fieldEquals("Incident", eventId(1), "amount", "75")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalIncidents", "1")
+  })
+})
+
+describe("Swaps", () => {
+  test("reads the stablecoin from the vault for hook token sales", () => {
+    mockAddressView(VAULT, "stablecoin():(address)", STABLECOIN)
+    handleHookTokenSwappedToStablecoin(
+      at(createHookTokenSwappedToStablecoinEvent(TOKEN, amount(2), amount(1000), amount(1)), 1)
+    )
+    handleTokenRescuedFromHook(at(createTokenRescuedFromHookEvent(TOKEN, amount(5), amount(1)), 2))
+
+    let exposureId = VAULT.toHexString() + "-" + TOKEN.toHexString()
+    assert.fieldEquals("Swap", eventId(1), "direction", "TOKEN_TO_STABLECOIN")
+    assert.fieldEquals("Swap", eventId(1), "stablecoin", STABLECOIN.toHexString())
+    assert.fieldEquals("Swap", eventId(1), "executionPrice", PRECISION.times(amount(500)).toString())
+    assert.fieldEquals("TokenExposure", exposureId, "netExposure", "-2")
+    assert.fieldEquals("TokenExposure", exposureId, "totalRescued", "5")
+    assert.fieldEquals("TokenRescue", eventId(2), "exposure", exposureId)
+    assert.fieldEquals("SwapStats", VAULT.toHexString(), "stablecoinReceived", "1000")
+    assert.fieldEquals("SwapStats", VAULT.toHexString(), "totalRescues", "1")
+  })
+})
+
+describe("Points", () => {
+  test("accrues balance-seconds lazily into per-user periods", () => {
+    let context = new DataSourceContext()
+    context.setI32("pointsPeriodSeconds", 100)
+    dataSourceMock.setContext(context)
+
+    let mint = at(createTransferEvent(Address.zero(), ALICE, amount(10)), 1)
+    mint.block.timestamp = amount(50)
+    handleTransfer(mint)
+
+    let transfer = at(createTransferEvent(ALICE, BOB, amount(4)), 2)
+    transfer.block.timestamp = amount(250)
+    handleTransfer(transfer)
+
+    let alice = ALICE.toHexString()
+    assert.fieldEquals("User", alice, "balanceSeconds", "2000")
+    assert.fieldEquals("User", alice, "balanceSecondsTimestamp", "250")
+    assert.entityCount("PointsPeriod", 3)
+    assert.fieldEquals("PointsPeriod", alice + "-0", "shareBalance", "10")
+    assert.fieldEquals("PointsPeriod", alice + "-2", "periodStartUnix", "200")
+    assert.fieldEquals("PointsPeriod", alice + "-2", "periodEndUnix", "300")
+    assert.fieldEquals("PointsPeriod", alice + "-2", "startBalanceSeconds", "1500")
+    assert.fieldEquals("PointsPeriod", alice + "-2", "balanceSeconds", "2000")
+    assert.fieldEquals("PointsPeriod", alice + "-2", "shareBalance", "6")
+    assert.fieldEquals("PointsPeriod", BOB.toHexString() + "-2", "startBalanceSeconds", "0")
+    assert.fieldEquals("PointsPeriod", BOB.toHexString() + "-2", "shareBalance", "4")
+
+    dataSourceMock.resetValues()
+  })
+
+  test("defaults to weekly periods", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(10)), 1))
+
+    assert.fieldEquals("PointsPeriod", ALICE.toHexString() + "-0", "periodEndUnix", "604800")
+  })
+})
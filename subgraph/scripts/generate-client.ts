@@ -0,0 +1,162 @@
+/**
+ * Generate the typed entities used by the subgraph client.
+ *
+ * Parses senior/, junior/ and reserve/schema.graphql and writes
+ * client/src/schema.ts: one interface per queried entity, its GraphQL selection
+ * and the collection -> entity routing for each vault. Derived fields are left
+ * out and entity references are selected as `{ id }`. Re-run after any schema
+ * change so the client stays in step with what the subgraphs serve.
+ *
+ * Usage: npm run client:generate
+ */
+import * as fs from "fs"
+import * as path from "path"
+import { FieldDefinitionNode, Kind, ObjectTypeDefinitionNode, TypeNode, parse } from "graphql"
+
+type VaultName = "senior" | "junior" | "reserve"
+type Collection = "users" | "deposits" | "withdrawals" | "spillovers" | "backstops"
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "..")
+const OUT_FILE = path.join(SUBGRAPH_ROOT, "client/src/schema.ts")
+const VAULTS: VaultName[] = ["senior", "junior", "reserve"]
+
+// Collection -> entity per vault; senior and the junior/reserve pair name flows differently
+const COLLECTIONS: Record<Collection, Record<VaultName, string>> = {
+  users: { senior: "User", junior: "User", reserve: "User" },
+  deposits: { senior: "Deposit", junior: "Deposit", reserve: "Deposit" },
+  withdrawals: { senior: "Withdrawal", junior: "Withdrawal", reserve: "Withdrawal" },
+  spillovers: { senior: "Spillover", junior: "SpilloverReceived", reserve: "SpilloverReceived" },
+  backstops: { senior: "Backstop", junior: "BackstopProvided", reserve: "BackstopProvided" },
+}
+
+// graph-node serializes 256-bit and decimal scalars as strings
+const SCALARS: Record<string, string> = {
+  ID: "string",
+  String: "string",
+  Bytes: "string",
+  BigInt: "string",
+  BigDecimal: "string",
+  Int8: "string",
+  Int: "number",
+  Boolean: "boolean",
+}
+
+interface Field {
+  name: string
+  type: string
+  selection: string
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1)
+}
+
+function resolveType(node: TypeNode, entities: Set<string>): { type: string; isEntity: boolean } {
+  if (node.kind === Kind.NON_NULL_TYPE) {
+    const inner = resolveType(node.type, entities)
+    return { type: inner.type.replace(/ \| null$/, ""), isEntity: inner.isEntity }
+  }
+  if (node.kind === Kind.LIST_TYPE) {
+    const inner = resolveType(node.type, entities)
+    const element = inner.type.endsWith(" | null") ? `(${inner.type})` : inner.type
+    return { type: `${element}[] | null`, isEntity: inner.isEntity }
+  }
+
+  const name = node.name.value
+  if (entities.has(name)) return { type: "EntityRef | null", isEntity: true }
+  const scalar = SCALARS[name]
+  if (!scalar) throw new Error(`Unsupported GraphQL type ${name}`)
+  return { type: `${scalar} | null`, isEntity: false }
+}
+
+function readFields(definition: ObjectTypeDefinitionNode, entities: Set<string>): Field[] {
+  const fields: Field[] = []
+  for (const field of definition.fields ?? ([] as readonly FieldDefinitionNode[])) {
+    if (field.directives?.some((directive) => directive.name.value === "derivedFrom")) continue
+    const { type, isEntity } = resolveType(field.type, entities)
+    fields.push({ name: field.name.value, type, selection: isEntity ? `${field.name.value} { id }` : field.name.value })
+  }
+  return fields
+}
+
+function readEntities(vault: VaultName): Map<string, Field[]> {
+  const document = parse(fs.readFileSync(path.join(SUBGRAPH_ROOT, vault, "schema.graphql"), "utf8"))
+  const definitions = document.definitions.filter(
+    (definition): definition is ObjectTypeDefinitionNode => definition.kind === Kind.OBJECT_TYPE_DEFINITION
+  )
+  const names = new Set(definitions.map((definition) => definition.name.value))
+  return new Map(definitions.map((definition) => [definition.name.value, readFields(definition, names)]))
+}
+
+function renderInterface(name: string, fields: Field[]): string {
+  const body = fields.map((field) => `  ${field.name}: ${field.type}`).join("\n")
+  return `export interface ${name} {\n${body}\n}\n`
+}
+
+function main(): void {
+  const lines: string[] = [
+    "// Generated by scripts/generate-client.ts from the vault schema.graphql files. Do not edit.",
+    'import { Collection, EntityQuery, EntityRef, VaultName } from "./types"',
+    "",
+  ]
+  const queries: string[] = []
+
+  for (const vault of VAULTS) {
+    const entities = readEntities(vault)
+    const prefix = capitalize(vault)
+    const collections: [string, string][] = [
+      ...(Object.keys(COLLECTIONS) as Collection[]).map((c): [string, string] => [c, COLLECTIONS[c][vault]]),
+      ["protocolStats", "ProtocolStats"],
+    ]
+
+    const routes: string[] = []
+    for (const [collection, entity] of collections) {
+      const fields = entities.get(entity)
+      if (!fields) throw new Error(`${vault}/schema.graphql: missing entity ${entity}`)
+      lines.push(renderInterface(`${prefix}${entity}`, fields))
+      if (collection === "protocolStats") continue
+      routes.push(
+        `    ${collection}: {\n` +
+          `      entity: "${entity}",\n` +
+          `      single: "${lowerFirst(entity)}",\n` +
+          `      list: "${lowerFirst(entity)}s",\n` +
+          `      fields: "${fields.map((field) => field.selection).join(" ")}",\n` +
+          `    },`
+      )
+    }
+    const statsFields = entities.get("ProtocolStats")!.map((field) => field.selection).join(" ")
+    routes.push(
+      `    protocolStats: {\n` +
+        `      entity: "ProtocolStats",\n` +
+        `      single: "protocolStats",\n` +
+        `      list: "protocolStats_collection",\n` +
+        `      fields: "${statsFields}",\n` +
+        `    },`
+    )
+
+    lines.push(`export interface ${prefix}Entities {`)
+    for (const [collection, entity] of collections) lines.push(`  ${collection}: ${prefix}${entity}`)
+    lines.push("}", "")
+    queries.push(`  ${vault}: {\n${routes.join("\n")}\n  },`)
+  }
+
+  lines.push(
+    "export interface VaultEntities {",
+    ...VAULTS.map((vault) => `  ${vault}: ${capitalize(vault)}Entities`),
+    "}",
+    "",
+    "export const QUERIES: Record<VaultName, Record<Collection | \"protocolStats\", EntityQuery>> = {",
+    ...queries,
+    "}",
+    ""
+  )
+
+  fs.writeFileSync(OUT_FILE, lines.join("\n"))
+  console.log(`✅ ${path.relative(SUBGRAPH_ROOT, OUT_FILE)}: ${VAULTS.join(", ")}`)
+}
+
+main()
@@ -0,0 +1,203 @@
+/**
+ * Generate graph-cli networks.json files from Foundry broadcast artifacts.
+ *
+ * Reads broadcast/<script>/<chainId>/run-latest.json for every chain listed in
+ * subgraph/networks.json, resolves the vault proxy addresses and deployment
+ * blocks, and writes a networks.json next to each subgraph.yaml so a network
+ * can be built with `npx graph build --network <name>`.
+ *
+ * Usage: npm run networks -- [--broadcast <dir>] [--config <file>]
+ */
+import * as fs from "fs"
+import * as path from "path"
+import * as yaml from "js-yaml"
+
+type VaultName = "SeniorVault" | "JuniorVault" | "ReserveVault"
+
+interface VaultDeployment {
+  address: string
+  startBlock: number
+}
+
+interface NetworkConfig {
+  network: string
+  vaults?: Partial<Record<VaultName, Partial<VaultDeployment>>>
+}
+
+interface BroadcastTransaction {
+  hash: string | null
+  transactionType: string
+  contractName: string | null
+  contractAddress: string | null
+  function: string | null
+  arguments: string[] | null
+}
+
+interface BroadcastReceipt {
+  transactionHash: string
+  blockNumber: string
+  status: string
+}
+
+interface BroadcastRun {
+  transactions: BroadcastTransaction[]
+  receipts: BroadcastReceipt[]
+  timestamp: number
+}
+
+type GraphNetworks = Record<string, Record<string, VaultDeployment>>
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "..")
+const SUBGRAPHS = ["senior", "junior", "reserve", "unified"]
+
+// Implementation contract name -> data source name used in the manifests
+const IMPLEMENTATIONS: Record<string, VaultName> = {
+  UnifiedConcreteSeniorVault: "SeniorVault",
+  ConcreteJuniorVault: "JuniorVault",
+  ConcreteReserveVault: "ReserveVault",
+}
+
+function parseArgs(argv: string[]): { broadcastDir: string; configFile: string } {
+  let broadcastDir = path.resolve(SUBGRAPH_ROOT, "../broadcast")
+  let configFile = path.resolve(SUBGRAPH_ROOT, "networks.json")
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--broadcast") broadcastDir = path.resolve(argv[++i])
+    else if (argv[i] === "--config") configFile = path.resolve(argv[++i])
+    else throw new Error(`Unknown argument: ${argv[i]}`)
+  }
+  return { broadcastDir, configFile }
+}
+
+function readBroadcastRuns(broadcastDir: string, chainId: string): BroadcastRun[] {
+  const runs: BroadcastRun[] = []
+  for (const script of fs.readdirSync(broadcastDir)) {
+    const file = path.join(broadcastDir, script, chainId, "run-latest.json")
+    if (fs.existsSync(file)) {
+      runs.push(JSON.parse(fs.readFileSync(file, "utf8")) as BroadcastRun)
+    }
+  }
+  // Oldest first so later deployments override earlier ones
+  return runs.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+function resolveBroadcastDeployments(runs: BroadcastRun[]): {
+  proxies: Partial<Record<VaultName, VaultDeployment>>
+  upgraded: Partial<Record<VaultName, string>>
+} {
+  const implementations = new Map<string, VaultName>()
+  for (const run of runs) {
+    for (const tx of run.transactions) {
+      const vault = tx.contractName ? IMPLEMENTATIONS[tx.contractName] : undefined
+      if (tx.transactionType === "CREATE" && vault && tx.contractAddress) {
+        implementations.set(tx.contractAddress.toLowerCase(), vault)
+      }
+    }
+  }
+
+  const proxies: Partial<Record<VaultName, VaultDeployment>> = {}
+  const upgraded: Partial<Record<VaultName, string>> = {}
+  for (const run of runs) {
+    const receipts = new Map(run.receipts.map((r) => [r.transactionHash.toLowerCase(), r]))
+
+    for (const tx of run.transactions) {
+      const implementation = tx.arguments?.[0]?.toLowerCase()
+      const vault = implementation ? implementations.get(implementation) : undefined
+      if (!vault || !tx.contractAddress) continue
+
+      if (tx.transactionType === "CREATE" && tx.contractName === "ERC1967Proxy") {
+        // Only count proxies that actually landed on chain
+        const receipt = tx.hash ? receipts.get(tx.hash.toLowerCase()) : undefined
+        if (!receipt || receipt.status !== "0x1") continue
+        proxies[vault] = {
+          address: tx.contractAddress,
+          startBlock: parseInt(receipt.blockNumber, 16),
+        }
+      } else if (tx.transactionType === "CALL" && tx.function?.startsWith("upgradeTo")) {
+        upgraded[vault] = tx.contractAddress
+      }
+    }
+  }
+  return { proxies, upgraded }
+}
+
+function resolveNetwork(
+  chainId: string,
+  config: NetworkConfig,
+  runs: BroadcastRun[]
+): Partial<Record<VaultName, VaultDeployment>> {
+  const { proxies, upgraded } = resolveBroadcastDeployments(runs)
+  const resolved: Partial<Record<VaultName, VaultDeployment>> = {}
+
+  for (const vault of Object.values(IMPLEMENTATIONS)) {
+    const configured = config.vaults?.[vault] ?? {}
+    const proxy = proxies[vault]
+    const upgradedProxy = upgraded[vault]
+
+    if (proxy && configured.address && !sameAddress(proxy.address, configured.address)) {
+      console.warn(
+        `[${config.network}] ${vault}: broadcast proxy ${proxy.address} replaces configured ${configured.address}`
+      )
+    }
+    if (!proxy && upgradedProxy && configured.address && !sameAddress(upgradedProxy, configured.address)) {
+      console.warn(
+        `[${config.network}] ${vault}: broadcast upgraded ${upgradedProxy} but config lists ${configured.address}`
+      )
+    }
+
+    const address = proxy?.address ?? configured.address ?? upgradedProxy
+    const startBlock = proxy?.startBlock ?? configured.startBlock
+    if (!address || startBlock === undefined) {
+      console.warn(`[${config.network}] ${vault}: no deployment found for chain ${chainId}, skipping`)
+      continue
+    }
+    // Broadcast files mix checksummed and lowercase addresses; keep output stable
+    resolved[vault] = { address: address.toLowerCase(), startBlock }
+  }
+  return resolved
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function readDataSourceNames(subgraph: string): string[] {
+  const manifest = yaml.load(
+    fs.readFileSync(path.join(SUBGRAPH_ROOT, subgraph, "subgraph.yaml"), "utf8")
+  ) as { dataSources?: { name: string }[] }
+  return (manifest.dataSources ?? []).map((ds) => ds.name)
+}
+
+function main(): void {
+  const { broadcastDir, configFile } = parseArgs(process.argv.slice(2))
+  const config = JSON.parse(fs.readFileSync(configFile, "utf8")) as Record<string, NetworkConfig>
+
+  const deployments: Record<string, Partial<Record<VaultName, VaultDeployment>>> = {}
+  for (const [chainId, networkConfig] of Object.entries(config)) {
+    const runs = readBroadcastRuns(broadcastDir, chainId)
+    deployments[networkConfig.network] = resolveNetwork(chainId, networkConfig, runs)
+  }
+
+  for (const subgraph of SUBGRAPHS) {
+    const dataSources = readDataSourceNames(subgraph)
+    const networks: GraphNetworks = {}
+
+    for (const [network, vaults] of Object.entries(deployments)) {
+      const missing = dataSources.filter((name) => !vaults[name as VaultName])
+      if (missing.length > 0) {
+        console.warn(`[${network}] ${subgraph}: missing ${missing.join(", ")}, network not emitted`)
+        continue
+      }
+      networks[network] = {}
+      for (const name of dataSources) {
+        networks[network][name] = vaults[name as VaultName]!
+      }
+    }
+
+    const outFile = path.join(SUBGRAPH_ROOT, subgraph, "networks.json")
+    fs.writeFileSync(outFile, JSON.stringify(networks, null, 2) + "\n")
+    console.log(`✅ ${path.relative(SUBGRAPH_ROOT, outFile)}: ${Object.keys(networks).join(", ") || "no networks"}`)
+  }
+}
+
+main()
@@ -0,0 +1,91 @@
+/**
+ * Run a subgraph's matchstick suite against a pinned matchstick release.
+ *
+ * `graph test` asks api.github.com for the latest release and downloads its
+ * binary on every fresh checkout, so it fails offline. This runs the pinned
+ * binary directly, looking in order at $MATCHSTICK_BINARY, the vendored copy in
+ * vendor/matchstick/<version>/<platform> and the copy graph-cli caches under
+ * node_modules/binary-install-raw. With --docker it runs the cached `matchstick`
+ * image instead. Only when neither exists does it fall back to
+ * `graph test -v <version>`, which downloads the pinned binary once into the
+ * graph-cli cache.
+ *
+ * Usage: npm run test:<subgraph> -- [--docker] [-c] [-r] [datasource]
+ */
+import { spawnSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+
+const MATCHSTICK_VERSION = "0.6.0"
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "..")
+const SUBGRAPHS = ["senior", "junior", "reserve", "unified"]
+const DOCKER_IMAGE = "matchstick"
+
+// Release asset names graph-cli picks for matchstick > 0.5.4
+function platformAsset(): string {
+  if (os.type() === "Darwin") return os.arch() === "arm64" ? "binary-macos-12-m1" : "binary-macos-12"
+  if (os.type() === "Linux" && os.arch() === "x64") return "binary-linux-22"
+  throw new Error(`matchstick ${MATCHSTICK_VERSION} has no binary for ${os.type()} ${os.arch()}; use --docker`)
+}
+
+function findBinary(): string | null {
+  const asset = platformAsset()
+  const candidates = [
+    process.env.MATCHSTICK_BINARY,
+    path.join(SUBGRAPH_ROOT, "vendor", "matchstick", MATCHSTICK_VERSION, asset),
+    path.join(SUBGRAPH_ROOT, "node_modules", "binary-install-raw", "bin", MATCHSTICK_VERSION, asset),
+  ]
+  for (const candidate of candidates) {
+    if (candidate && fs.existsSync(candidate)) return path.resolve(candidate)
+  }
+  if (process.env.MATCHSTICK_BINARY) throw new Error(`MATCHSTICK_BINARY not found: ${process.env.MATCHSTICK_BINARY}`)
+  return null
+}
+
+function hasDockerImage(): boolean {
+  const result = spawnSync("docker", ["images", "-q", DOCKER_IMAGE], { encoding: "utf8" })
+  return result.status === 0 && result.stdout.trim() !== ""
+}
+
+function run(command: string, args: string[], cwd: string): number {
+  const result = spawnSync(command, args, { cwd, stdio: "inherit" })
+  if (result.error) throw result.error
+  return result.status ?? 1
+}
+
+function main(): number {
+  const [subgraph, ...argv] = process.argv.slice(2)
+  if (!SUBGRAPHS.includes(subgraph)) throw new Error(`First argument must be one of ${SUBGRAPHS.join(", ")}`)
+  const cwd = path.join(SUBGRAPH_ROOT, subgraph)
+  const docker = argv.includes("--docker")
+  const args = argv.filter((arg) => arg !== "--docker")
+
+  if (docker) {
+    if (!hasDockerImage()) {
+      throw new Error(
+        `No cached "${DOCKER_IMAGE}" image; build it once with \`npx graph test -d -v ${MATCHSTICK_VERSION}\` while online`
+      )
+    }
+    const mount = `type=bind,source=${cwd},target=/matchstick`
+    const env = args.length > 0 ? ["-e", `ARGS=${args.join(" ")}`] : []
+    return run("docker", ["run", "--rm", "--mount", mount, ...env, DOCKER_IMAGE], cwd)
+  }
+
+  const binary = findBinary()
+  if (binary) {
+    fs.chmodSync(binary, 0o755)
+    return run(binary, args, cwd)
+  }
+
+  console.warn(`matchstick ${MATCHSTICK_VERSION} not found locally; downloading it through graph-cli`)
+  return run("npx", ["graph", "test", "-v", MATCHSTICK_VERSION, ...args], cwd)
+}
+
+try {
+  process.exitCode = main()
+} catch (error) {
+  console.error((error as Error).message)
+  process.exitCode = 1
+}
@@ -0,0 +1,120 @@
+/**
+ * Reconcile a subgraph against an offline replay of the vault's logs.
+ *
+ * Decodes a JSON dump of vault logs (Foundry broadcast runs, an eth_getLogs
+ * response or a bare log array), replays it through the same accounting rules
+ * as <subgraph>/src/mapping.ts and computes the expected ProtocolStats, per-user
+ * totals and balances. With --endpoint, queries the subgraph at the replayed
+ * block and reports every mismatched entity; otherwise prints the expected state.
+ *
+ * Dumps must cover every vault log from the data source's startBlock, or totals
+ * will drift from the first missing event onwards.
+ *
+ * Usage: npm run reconcile -- --subgraph <senior|junior|reserve> --logs <file> [--logs <file>...]
+ *          [--address <vault>] [--endpoint <url>] [--block <n>] [--out <file>]
+ */
+import * as fs from "fs"
+import * as path from "path"
+import { ExpectedState, Ledger } from "./replay/ledger"
+import { decodeLogs, readDataSource, readLogs } from "./replay/logs"
+import { SeniorLedger } from "./replay/senior"
+import { diffState, fetchActualState } from "./replay/subgraph"
+import { VaultLedger } from "./replay/vault"
+
+type SubgraphName = "senior" | "junior" | "reserve"
+
+interface Options {
+  subgraph: SubgraphName
+  logFiles: string[]
+  address: string | null
+  endpoint: string | null
+  block: number | null
+  outFile: string | null
+}
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "..")
+const SUBGRAPHS: SubgraphName[] = ["senior", "junior", "reserve"]
+
+function parseArgs(argv: string[]): Options {
+  let subgraph: string | null = null
+  const logFiles: string[] = []
+  let address: string | null = null
+  let endpoint: string | null = null
+  let block: number | null = null
+  let outFile: string | null = null
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--subgraph") subgraph = argv[++i]
+    else if (argv[i] === "--logs") logFiles.push(path.resolve(argv[++i]))
+    else if (argv[i] === "--address") address = argv[++i].toLowerCase()
+    else if (argv[i] === "--endpoint") endpoint = argv[++i]
+    else if (argv[i] === "--block") block = Number(argv[++i])
+    else if (argv[i] === "--out") outFile = path.resolve(argv[++i])
+    else throw new Error(`Unknown argument: ${argv[i]}`)
+  }
+
+  if (!subgraph || !SUBGRAPHS.includes(subgraph as SubgraphName)) {
+    throw new Error(`--subgraph must be one of ${SUBGRAPHS.join(", ")}`)
+  }
+  if (logFiles.length === 0) throw new Error("At least one --logs <file> is required")
+  if (block !== null && !Number.isInteger(block)) throw new Error("--block must be a block number")
+  return { subgraph: subgraph as SubgraphName, logFiles, address, endpoint, block, outFile }
+}
+
+function createLedger(subgraph: SubgraphName): Ledger {
+  return subgraph === "senior" ? new SeniorLedger() : new VaultLedger(subgraph === "reserve")
+}
+
+function serialize(state: ExpectedState, block: number): string {
+  const expected = { block, stats: state.stats, users: Object.fromEntries(state.users) }
+  return JSON.stringify(expected, (_key, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n"
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const dataSource = readDataSource(path.join(SUBGRAPH_ROOT, options.subgraph))
+  if (options.address) dataSource.address = options.address
+
+  const logs = readLogs(options.logFiles)
+  const events = decodeLogs(logs, dataSource)
+  const ledger = createLedger(options.subgraph)
+  const applied = ledger.replay(events)
+  const block = options.block ?? ledger.lastBlock
+  const expected = ledger.expected()
+
+  console.log(
+    `🔁 ${options.subgraph}: ${events.length} events from ${dataSource.address} ` +
+      `(${applied} with accounting effects), ${expected.users.size} users, up to block ${ledger.lastBlock}`
+  )
+  if (events.length === 0) console.warn(`No logs matched ${dataSource.address} from block ${dataSource.startBlock}`)
+  if (block < ledger.lastBlock) console.warn(`--block ${block} is before the last replayed block ${ledger.lastBlock}`)
+
+  if (options.outFile) {
+    fs.writeFileSync(options.outFile, serialize(expected, block))
+    console.log(`✅ Expected state written to ${path.relative(process.cwd(), options.outFile)}`)
+  }
+  if (!options.endpoint) {
+    if (!options.outFile) process.stdout.write(serialize(expected, block))
+    return
+  }
+
+  const userFields = Object.keys(expected.users.values().next().value ?? {})
+  const actual = await fetchActualState(options.endpoint, block, Object.keys(expected.stats), userFields)
+  const mismatches = diffState(expected, actual)
+
+  if (mismatches.length === 0) {
+    console.log(`✅ ProtocolStats and ${actual.users.size} users match at block ${block}`)
+    return
+  }
+  for (const m of mismatches) {
+    console.log(`❌ ${m.entity} ${m.field}: expected ${m.expected}, got ${m.actual}`)
+  }
+  const entities = new Set(mismatches.map((m) => m.entity)).size
+  console.log(`\n${mismatches.length} mismatched fields across ${entities} entities at block ${block}`)
+  process.exitCode = 1
+}
+
+main().catch((error: Error) => {
+  console.error(error.message)
+  process.exitCode = 1
+})
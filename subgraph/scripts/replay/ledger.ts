@@ -0,0 +1,231 @@
+import { ReplayEvent } from "./logs"
+
+export const PRECISION = 10n ** 18n
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+export type Value = bigint | number | boolean | string | null
+export type EntityValues = Record<string, Value>
+
+export interface ExpectedState {
+  stats: EntityValues
+  users: Map<string, EntityValues>
+}
+
+export interface UserState {
+  totalDeposited: bigint
+  totalWithdrawn: bigint
+  totalFeesPaid: bigint
+  costBasis: bigint
+  realizedPnL: bigint
+  shareBalance: bigint
+  pendingBurn: string | null
+}
+
+export interface TransferRecord {
+  type: "MINT" | "BURN" | "TRANSFER"
+  to: string
+  value: bigint
+  shares: bigint
+  costBasis: bigint
+  transactionHash: string
+}
+
+/**
+ * Accounting shared by every vault mapping: user creation, average-cost basis,
+ * holder counts, LP capital allocation and whitelist counts. Subclasses route
+ * each handler to the same rules as their mapping.ts.
+ */
+export abstract class Ledger {
+  protected users = new Map<string, UserState>()
+  protected transfers = new Map<string, TransferRecord>()
+  // Mirrors ProtocolStats.lastMint
+  protected lastMint: TransferRecord | null = null
+  private whitelist = new Map<string, boolean>()
+
+  totalUsers = 0
+  totalHolders = 0
+  totalIncidents = 0
+  vaultValue = 0n
+  totalCapitalDeployed = 0n
+  totalCapitalReturned = 0n
+  deployedCapital = 0n
+  idleCapital = 0n
+  totalSeeds = 0
+  totalSeededValue = 0n
+  totalSeededShares = 0n
+  totalSeededLPValue = 0n
+  whitelistedLPs = 0
+  whitelistedLPTokens = 0
+  kodiakHook: string | null = null
+  lastBlock = 0
+
+  /** Returns false when the event's handler has no accounting effect worth replaying. */
+  protected abstract handle(event: ReplayEvent): boolean
+  protected abstract statsValues(): EntityValues
+  protected abstract userValues(user: UserState): EntityValues
+
+  replay(events: ReplayEvent[]): number {
+    let applied = 0
+    for (const event of events) {
+      if (this.handle(event)) applied++
+      this.lastBlock = event.blockNumber
+    }
+    return applied
+  }
+
+  expected(): ExpectedState {
+    const users = new Map<string, EntityValues>()
+    for (const [address, user] of this.users) {
+      users.set(address, this.userValues(user))
+    }
+    return { stats: this.statsValues(), users }
+  }
+
+  protected user(address: string): UserState {
+    let user = this.users.get(address)
+    if (!user) {
+      user = {
+        totalDeposited: 0n,
+        totalWithdrawn: 0n,
+        totalFeesPaid: 0n,
+        costBasis: 0n,
+        realizedPnL: 0n,
+        shareBalance: 0n,
+        pendingBurn: null,
+      }
+      this.users.set(address, user)
+      this.totalUsers++
+    }
+    return user
+  }
+
+  protected removeCostBasis(user: UserState, shares: bigint): bigint {
+    if (user.shareBalance <= 0n) return 0n
+    const removed = shares >= user.shareBalance ? user.costBasis : (user.costBasis * shares) / user.shareBalance
+    user.costBasis -= removed
+    return removed
+  }
+
+  protected adjustShareBalance(user: UserState, delta: bigint): void {
+    const wasHolder = user.shareBalance > 0n
+    user.shareBalance += delta
+    const isHolder = user.shareBalance > 0n
+    if (wasHolder !== isHolder) this.totalHolders += isHolder ? 1 : -1
+  }
+
+  /** Applies a Transfer with the share amount already converted, returning the stored record. */
+  protected recordTransfer(event: ReplayEvent, from: string, to: string, value: bigint, shares: bigint): TransferRecord {
+    const isMint = from === ZERO_ADDRESS
+    const isBurn = to === ZERO_ADDRESS
+
+    let costBasis = 0n
+    if (!isMint) {
+      const fromUser = this.user(from)
+      costBasis = this.removeCostBasis(fromUser, shares)
+      if (isBurn) fromUser.pendingBurn = event.id
+      this.adjustShareBalance(fromUser, -shares)
+    }
+    if (!isBurn) {
+      const toUser = this.user(to)
+      toUser.costBasis += costBasis
+      this.adjustShareBalance(toUser, shares)
+    }
+
+    const transfer: TransferRecord = {
+      type: isMint ? "MINT" : isBurn ? "BURN" : "TRANSFER",
+      to,
+      value,
+      shares,
+      costBasis,
+      transactionHash: event.transactionHash,
+    }
+    this.transfers.set(event.id, transfer)
+    if (isMint) this.lastMint = transfer
+    return transfer
+  }
+
+  /** Cost basis of the shares burned for a withdrawal, if the burn was in the same transaction. */
+  protected takePendingBurn(user: UserState, transactionHash: string): bigint {
+    let costBasis = 0n
+    if (user.pendingBurn !== null) {
+      const burn = this.transfers.get(user.pendingBurn)
+      if (burn && burn.transactionHash === transactionHash) costBasis = burn.costBasis
+      user.pendingBurn = null
+    }
+    return costBasis
+  }
+
+  protected recordSeed(type: "LP" | "TOKEN", seeder: string, valueAdded: bigint, sharesMinted: bigint): void {
+    this.user(seeder).costBasis += valueAdded
+    this.totalSeeds++
+    this.totalSeededValue += valueAdded
+    this.totalSeededShares += sharesMinted
+    if (type === "LP") this.totalSeededLPValue += valueAdded
+    this.vaultValue += valueAdded
+    this.updateCapitalAllocation()
+  }
+
+  protected deployCapital(amount: bigint): void {
+    this.totalCapitalDeployed += amount
+    this.updateCapitalAllocation()
+  }
+
+  protected returnCapital(amount: bigint): void {
+    this.totalCapitalReturned += amount
+    this.updateCapitalAllocation()
+  }
+
+  protected updateCapitalAllocation(): void {
+    const invested = this.totalCapitalDeployed + this.totalSeededLPValue
+    this.deployedCapital = invested > this.totalCapitalReturned ? invested - this.totalCapitalReturned : 0n
+    this.idleCapital = this.vaultValue > this.deployedCapital ? this.vaultValue - this.deployedCapital : 0n
+  }
+
+  protected setWhitelistStatus(kind: "LP" | "LP_TOKEN", address: string, isWhitelisted: boolean): void {
+    const key = `${kind}-${address}`
+    if ((this.whitelist.get(key) ?? false) === isWhitelisted) return
+    this.whitelist.set(key, isWhitelisted)
+    const delta = isWhitelisted ? 1 : -1
+    if (kind === "LP") this.whitelistedLPs += delta
+    else this.whitelistedLPTokens += delta
+  }
+
+  // setKodiakHook drops the old hook from the LP whitelist without emitting WhitelistedLPRemoved
+  protected setKodiakHook(newHook: string): void {
+    if (this.kodiakHook !== null && this.kodiakHook !== newHook && this.whitelist.get(`LP-${this.kodiakHook}`)) {
+      this.setWhitelistStatus("LP", this.kodiakHook, false)
+    }
+    this.kodiakHook = newHook
+  }
+
+  /** Fields every vault's ProtocolStats shares. */
+  protected commonStatsValues(): EntityValues {
+    return {
+      vaultValue: this.vaultValue,
+      totalCapitalDeployed: this.totalCapitalDeployed,
+      totalCapitalReturned: this.totalCapitalReturned,
+      deployedCapital: this.deployedCapital,
+      idleCapital: this.idleCapital,
+      whitelistedLPs: this.whitelistedLPs,
+      whitelistedLPTokens: this.whitelistedLPTokens,
+      totalSeeds: this.totalSeeds,
+      totalSeededValue: this.totalSeededValue,
+      totalSeededShares: this.totalSeededShares,
+      totalSeededLPValue: this.totalSeededLPValue,
+      totalUsers: this.totalUsers,
+      totalHolders: this.totalHolders,
+      totalIncidents: this.totalIncidents,
+    }
+  }
+
+  protected commonUserValues(user: UserState): EntityValues {
+    return {
+      totalDeposited: user.totalDeposited,
+      totalWithdrawn: user.totalWithdrawn,
+      totalFeesPaid: user.totalFeesPaid,
+      costBasis: user.costBasis,
+      realizedPnL: user.realizedPnL,
+      shareBalance: user.shareBalance,
+    }
+  }
+}
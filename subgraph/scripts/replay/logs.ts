@@ -0,0 +1,125 @@
+import * as fs from "fs"
+import * as path from "path"
+import * as yaml from "js-yaml"
+import { Interface } from "ethers"
+
+export interface RawLog {
+  address: string
+  topics: string[]
+  data: string
+  blockNumber: string | number
+  blockTimestamp?: string | number
+  transactionHash: string
+  logIndex: string | number
+}
+
+export interface ReplayEvent {
+  handler: string
+  params: Record<string, bigint | string | boolean>
+  blockNumber: number
+  timestamp: number | null
+  transactionHash: string
+  logIndex: number
+  id: string
+}
+
+export interface DataSource {
+  address: string
+  startBlock: number
+  abiFile: string
+  handlers: Map<string, string>
+}
+
+interface Manifest {
+  dataSources: {
+    name: string
+    source: { address: string; abi: string; startBlock: number }
+    mapping: {
+      abis: { name: string; file: string }[]
+      eventHandlers: { event: string; handler: string }[]
+    }
+  }[]
+}
+
+/** Reads the vault data source, its ABI and its event -> handler routing from subgraph.yaml. */
+export function readDataSource(subgraphDir: string): DataSource {
+  const manifest = yaml.load(fs.readFileSync(path.join(subgraphDir, "subgraph.yaml"), "utf8")) as Manifest
+  const dataSource = manifest.dataSources[0]
+  const abi = dataSource.mapping.abis.find((a) => a.name === dataSource.source.abi)
+  if (!abi) throw new Error(`${dataSource.name}: ABI ${dataSource.source.abi} not listed in subgraph.yaml`)
+
+  // Manifest signatures mark indexed params; ABI sighashes don't
+  const handlers = new Map<string, string>()
+  for (const { event, handler } of dataSource.mapping.eventHandlers) {
+    handlers.set(event.replace(/indexed /g, ""), handler)
+  }
+  return {
+    address: dataSource.source.address.toLowerCase(),
+    startBlock: dataSource.source.startBlock,
+    abiFile: path.join(subgraphDir, abi.file),
+    handlers,
+  }
+}
+
+function toNumber(value: string | number): number {
+  return typeof value === "number" ? value : Number(BigInt(value))
+}
+
+// Accepts Foundry broadcast runs, eth_getLogs JSON-RPC responses and bare log arrays
+function extractLogs(dump: unknown): RawLog[] {
+  if (Array.isArray(dump)) return dump as RawLog[]
+  const object = dump as { receipts?: { logs: RawLog[] }[]; logs?: RawLog[]; result?: RawLog[] }
+  if (object.receipts) return object.receipts.flatMap((receipt) => receipt.logs ?? [])
+  if (object.logs) return object.logs
+  if (object.result) return object.result
+  throw new Error("Unrecognised log dump: expected a broadcast run, a JSON-RPC response or an array of logs")
+}
+
+/** Loads every dump, dropping logs that appear in more than one file. */
+export function readLogs(files: string[]): RawLog[] {
+  const logs = new Map<string, RawLog>()
+  for (const file of files) {
+    for (const log of extractLogs(JSON.parse(fs.readFileSync(file, "utf8")))) {
+      logs.set(`${log.transactionHash.toLowerCase()}-${toNumber(log.logIndex)}`, log)
+    }
+  }
+  return [...logs.values()]
+}
+
+/**
+ * Decodes the data source's logs in chain order, keeping only events the
+ * manifest routes to a handler, exactly as graph-node would.
+ */
+export function decodeLogs(logs: RawLog[], dataSource: DataSource): ReplayEvent[] {
+  const abi = new Interface(JSON.parse(fs.readFileSync(dataSource.abiFile, "utf8")))
+  const events: ReplayEvent[] = []
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== dataSource.address) continue
+    const blockNumber = toNumber(log.blockNumber)
+    if (blockNumber < dataSource.startBlock) continue
+
+    const decoded = abi.parseLog({ topics: log.topics, data: log.data })
+    const handler = decoded ? dataSource.handlers.get(decoded.fragment.format("sighash")) : undefined
+    if (!decoded || !handler) continue
+
+    const params: Record<string, bigint | string | boolean> = {}
+    decoded.fragment.inputs.forEach((input, i) => {
+      const value = decoded.args[i]
+      params[input.name] = typeof value === "string" ? value.toLowerCase() : value
+    })
+
+    const transactionHash = log.transactionHash.toLowerCase()
+    const logIndex = toNumber(log.logIndex)
+    events.push({
+      handler,
+      params,
+      blockNumber,
+      timestamp: log.blockTimestamp === undefined ? null : toNumber(log.blockTimestamp),
+      transactionHash,
+      logIndex,
+      id: `${transactionHash}-${logIndex}`,
+    })
+  }
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+}
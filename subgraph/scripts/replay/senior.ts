@@ -0,0 +1,176 @@
+import { EntityValues, Ledger, PRECISION, UserState, ZERO_ADDRESS } from "./ledger"
+import { ReplayEvent } from "./logs"
+
+// Mirrors MathLib: balances are shares scaled by the rebase index, burns round up
+function sharesFromBalance(balance: bigint, rebaseIndex: bigint, roundUp: boolean): bigint {
+  const numerator = balance * PRECISION + (roundUp ? rebaseIndex - 1n : 0n)
+  return numerator / rebaseIndex
+}
+
+/** Replays senior/src/mapping.ts. */
+export class SeniorLedger extends Ledger {
+  private epochs = new Set<string>()
+
+  totalDeposits = 0n
+  totalWithdrawals = 0n
+  totalSpilloverAmount = 0n
+  totalBackstopAmount = 0n
+  totalWithdrawalFees = 0n
+  totalManagementFees = 0n
+  totalPerformanceFees = 0n
+  totalShares = 0n
+  totalBackstops = 0
+  totalSpillovers = 0
+  totalRebases = 0
+  totalOutages = 0
+  paused = false
+  currentEpoch = 0n
+  rebaseIndex = PRECISION
+
+  protected handle(event: ReplayEvent): boolean {
+    const p = event.params
+    switch (event.handler) {
+      case "handleDeposit": {
+        const user = this.user(p.user as string)
+        user.totalDeposited += p.assets as bigint
+        user.costBasis += p.assets as bigint
+        this.totalDeposits += p.assets as bigint
+        return true
+      }
+      case "handleWithdraw": {
+        const user = this.user(p.user as string)
+        const costBasis = this.takePendingBurn(user, event.transactionHash)
+        // Senior reports the amount actually paid out, after penalty and fee
+        user.realizedPnL += (p.assets as bigint) - costBasis
+        user.totalWithdrawn += p.assets as bigint
+        this.totalWithdrawals += p.assets as bigint
+        return true
+      }
+      case "handleTransfer": {
+        const from = p.from as string
+        const to = p.to as string
+        const shares = sharesFromBalance(p.value as bigint, this.rebaseIndex, to === ZERO_ADDRESS)
+        const transfer = this.recordTransfer(event, from, to, p.value as bigint, shares)
+        if (transfer.type === "MINT") this.totalShares += shares
+        if (transfer.type === "BURN") this.totalShares -= shares
+        return true
+      }
+      case "handleCooldownInitiated":
+      case "handleWithdrawalPenalty":
+        this.user(p.user as string)
+        return true
+      case "handleWithdrawalFeeCharged":
+        this.user(p.user as string).totalFeesPaid += p.fee as bigint
+        this.totalWithdrawalFees += p.fee as bigint
+        return true
+      case "handleFeesCollected":
+        this.totalManagementFees += p.managementFee as bigint
+        this.totalPerformanceFees += p.performanceFee as bigint
+        return true
+      case "handleProfitSpillover":
+        this.totalSpillovers++
+        this.totalSpilloverAmount += p.excessAmount as bigint
+        return true
+      case "handleBackstopTriggered":
+        this.totalBackstops++
+        this.totalBackstopAmount += (p.fromReserve as bigint) + (p.fromJunior as bigint)
+        return true
+      case "handleVaultValueUpdated":
+        this.vaultValue = p.newValue as bigint
+        this.updateCapitalAllocation()
+        return true
+      case "handleRebaseExecuted":
+        this.rebase(p.epoch as bigint, p.newIndex as bigint)
+        return true
+      case "handleRebase":
+        this.rebase(p.epoch as bigint, p.newIndex as bigint)
+        this.repriceFeeMint(event, p.newIndex as bigint)
+        return true
+      case "handleVaultSeeded":
+        this.recordSeed("LP", p.seedProvider as string, p.valueAdded as bigint, p.sharesMinted as bigint)
+        return true
+      case "handleKodiakDeployment":
+      case "handleLPInvestment":
+        this.deployCapital(p.amount as bigint)
+        return true
+      case "handleLPLiquidationExecuted":
+        this.returnCapital(p.received as bigint)
+        return true
+      case "handleLPTokensWithdrawn":
+        this.updateCapitalAllocation()
+        return true
+      case "handleWhitelistedLPAdded":
+      case "handleWhitelistedLPRemoved":
+        this.setWhitelistStatus("LP", p.lp as string, event.handler === "handleWhitelistedLPAdded")
+        return true
+      case "handleWhitelistedLPTokenAdded":
+      case "handleWhitelistedLPTokenRemoved":
+        this.setWhitelistStatus("LP_TOKEN", p.lpToken as string, event.handler === "handleWhitelistedLPTokenAdded")
+        return true
+      case "handleKodiakHookUpdated":
+        this.setKodiakHook(p.newHook as string)
+        return true
+      case "handlePaused":
+        this.totalIncidents++
+        this.totalOutages++
+        this.paused = true
+        return true
+      case "handleUnpaused":
+        this.totalIncidents++
+        this.paused = false
+        return true
+      case "handleEmergencyWithdraw":
+      case "handleBackstopShortfall":
+        this.totalIncidents++
+        return true
+      default:
+        return false
+    }
+  }
+
+  private rebase(epoch: bigint, newIndex: bigint): void {
+    if (!this.epochs.has(epoch.toString())) {
+      this.epochs.add(epoch.toString())
+      this.totalRebases++
+    }
+    this.currentEpoch = epoch
+    this.rebaseIndex = newIndex
+  }
+
+  // The treasury fee mint precedes Rebase in the same transaction but was priced at the old index
+  private repriceFeeMint(event: ReplayEvent, newIndex: bigint): void {
+    const feeMint = this.lastMint
+    if (!feeMint || feeMint.transactionHash !== event.transactionHash) return
+
+    const shares = sharesFromBalance(feeMint.value, newIndex, false)
+    const delta = shares - feeMint.shares
+    this.adjustShareBalance(this.user(feeMint.to), delta)
+    this.totalShares += delta
+    feeMint.shares = shares
+  }
+
+  protected statsValues(): EntityValues {
+    return {
+      ...this.commonStatsValues(),
+      totalDeposits: this.totalDeposits,
+      totalWithdrawals: this.totalWithdrawals,
+      totalSpilloverAmount: this.totalSpilloverAmount,
+      totalBackstopAmount: this.totalBackstopAmount,
+      totalWithdrawalFees: this.totalWithdrawalFees,
+      totalManagementFees: this.totalManagementFees,
+      totalPerformanceFees: this.totalPerformanceFees,
+      totalShares: this.totalShares,
+      totalBackstops: this.totalBackstops,
+      totalSpillovers: this.totalSpillovers,
+      totalRebases: this.totalRebases,
+      totalOutages: this.totalOutages,
+      paused: this.paused,
+      currentEpoch: this.currentEpoch,
+      rebaseIndex: this.rebaseIndex,
+    }
+  }
+
+  protected userValues(user: UserState): EntityValues {
+    return this.commonUserValues(user)
+  }
+}
@@ -0,0 +1,104 @@
+import { EntityValues, ExpectedState, Value } from "./ledger"
+
+// graph-node caps `first` at 1000, so users are paged by id
+const PAGE_SIZE = 1000
+
+interface GraphQLResponse<T> {
+  data?: T
+  errors?: { message: string }[]
+}
+
+export type ActualValues = Record<string, string | number | boolean | null>
+
+export interface Mismatch {
+  entity: string
+  field: string
+  expected: string
+  actual: string
+}
+
+async function query<T>(endpoint: string, text: string, variables: Record<string, unknown>): Promise<T> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query: text, variables }),
+  })
+  if (!response.ok) throw new Error(`${endpoint}: HTTP ${response.status} ${response.statusText}`)
+
+  const body = (await response.json()) as GraphQLResponse<T>
+  if (body.errors && body.errors.length > 0) {
+    throw new Error(`${endpoint}: ${body.errors.map((e) => e.message).join("; ")}`)
+  }
+  return body.data as T
+}
+
+/** Fetches ProtocolStats and every User at `block`, selecting only the fields the replay computes. */
+export async function fetchActualState(
+  endpoint: string,
+  block: number,
+  statsFields: string[],
+  userFields: string[]
+): Promise<{ stats: ActualValues | null; users: Map<string, ActualValues> }> {
+  const { protocolStats } = await query<{ protocolStats: ActualValues | null }>(
+    endpoint,
+    `query ($block: Int!) { protocolStats(id: "protocol", block: { number: $block }) { ${statsFields.join(" ")} } }`,
+    { block }
+  )
+
+  const users = new Map<string, ActualValues>()
+  let cursor = ""
+  for (;;) {
+    const page = await query<{ users: (ActualValues & { id: string })[] }>(
+      endpoint,
+      `query ($block: Int!, $cursor: String!) {
+        users(first: ${PAGE_SIZE}, orderBy: id, where: { id_gt: $cursor }, block: { number: $block }) {
+          id ${userFields.join(" ")}
+        }
+      }`,
+      { block, cursor }
+    )
+    for (const user of page.users) users.set(user.id, user)
+    if (page.users.length < PAGE_SIZE) break
+    cursor = page.users[page.users.length - 1].id
+  }
+  return { stats: protocolStats, users }
+}
+
+// BigInts come back as decimal strings, Ints as numbers
+function format(value: Value | undefined): string {
+  return value === null || value === undefined ? "null" : String(value)
+}
+
+function diffEntity(entity: string, expected: EntityValues, actual: ActualValues, mismatches: Mismatch[]): void {
+  for (const [field, value] of Object.entries(expected)) {
+    if (format(value) !== format(actual[field])) {
+      mismatches.push({ entity, field, expected: format(value), actual: format(actual[field]) })
+    }
+  }
+}
+
+/** Lists every field that differs, plus users only one side knows about. */
+export function diffState(
+  expected: ExpectedState,
+  actual: { stats: ActualValues | null; users: Map<string, ActualValues> }
+): Mismatch[] {
+  const mismatches: Mismatch[] = []
+
+  if (actual.stats === null) {
+    mismatches.push({ entity: "ProtocolStats:protocol", field: "id", expected: "protocol", actual: "missing" })
+  } else {
+    diffEntity("ProtocolStats:protocol", expected.stats, actual.stats, mismatches)
+  }
+
+  for (const [address, values] of expected.users) {
+    const user = actual.users.get(address)
+    if (!user) mismatches.push({ entity: `User:${address}`, field: "id", expected: address, actual: "missing" })
+    else diffEntity(`User:${address}`, values, user, mismatches)
+  }
+  for (const address of actual.users.keys()) {
+    if (!expected.users.has(address)) {
+      mismatches.push({ entity: `User:${address}`, field: "id", expected: "missing", actual: address })
+    }
+  }
+  return mismatches
+}
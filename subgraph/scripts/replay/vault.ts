@@ -0,0 +1,187 @@
+import { EntityValues, Ledger, PRECISION, UserState } from "./ledger"
+import { ReplayEvent } from "./logs"
+
+/** Replays junior/src/mapping.ts, or reserve/src/mapping.ts with its deposit cap and threshold events. */
+export class VaultLedger extends Ledger {
+  // Each owner's latest withdrawal fee, for netting the Withdraw that follows in its transaction
+  private withdrawalFees = new Map<string, { transactionHash: string; netAmount: bigint }>()
+
+  totalDeposits = 0n
+  totalWithdrawals = 0n
+  totalSpilloverReceived = 0n
+  totalBackstopProvided = 0n
+  totalWithdrawalFees = 0n
+  totalManagementFees = 0n
+  totalPerformanceFees = 0n
+  mgmtFeeSchedule = 0n
+  totalShares = 0n
+  sharePrice = PRECISION
+  currentDepositCap = 0n
+
+  constructor(private readonly reserve: boolean) {
+    super()
+  }
+
+  protected handle(event: ReplayEvent): boolean {
+    const p = event.params
+    switch (event.handler) {
+      case "handleDeposit":
+        this.deposit(p.sender as string, p.owner as string, p.assets as bigint)
+        return true
+      case "handleLegacyDeposit":
+        this.deposit(p.user as string, p.user as string, p.assets as bigint)
+        return true
+      case "handleWithdraw":
+        this.withdraw(event, p.sender as string, p.receiver as string, p.owner as string, p.assets as bigint)
+        return true
+      case "handleLegacyWithdraw":
+        this.withdraw(event, p.user as string, p.user as string, p.user as string, p.assets as bigint)
+        return true
+      case "handleTransfer": {
+        const transfer = this.recordTransfer(event, p.from as string, p.to as string, p.value as bigint, p.value as bigint)
+        if (transfer.type !== "TRANSFER") {
+          this.totalShares += transfer.type === "MINT" ? transfer.shares : -transfer.shares
+          this.updateSharePrice()
+        }
+        return true
+      }
+      case "handleCooldownInitiated":
+      case "handleWithdrawalPenalty":
+        this.user(p.user as string)
+        return true
+      case "handleWithdrawalFeeCharged":
+        this.user(p.user as string).totalFeesPaid += p.fee as bigint
+        this.withdrawalFees.set(p.user as string, {
+          transactionHash: event.transactionHash,
+          netAmount: p.netAmount as bigint,
+        })
+        this.totalWithdrawalFees += p.fee as bigint
+        return true
+      case "handleFeesCollected":
+        this.totalManagementFees += p.managementFee as bigint
+        this.totalPerformanceFees += p.performanceFee as bigint
+        return true
+      case "handleManagementFeeMinted":
+        this.totalManagementFees += p.amount as bigint
+        return true
+      case "handleMgmtFeeScheduleUpdated":
+        this.mgmtFeeSchedule = p.newSchedule as bigint
+        return true
+      case "handleSpilloverReceived":
+        this.totalSpilloverReceived += p.amount as bigint
+        this.adjustVaultValue(p.amount as bigint)
+        return true
+      case "handleBackstopProvided":
+        this.totalBackstopProvided += p.amount as bigint
+        this.adjustVaultValue(-(p.amount as bigint))
+        return true
+      case "handleDepositCapUpdated":
+        this.currentDepositCap = p.newCap as bigint
+        return true
+      case "handleVaultValueUpdated":
+        this.vaultValue = p.newValue as bigint
+        this.updateCapitalAllocation()
+        this.updateSharePrice()
+        return true
+      case "handleVaultSeeded":
+        this.recordSeed("LP", p.seedProvider as string, p.valueAdded as bigint, p.sharesMinted as bigint)
+        this.updateSharePrice()
+        return true
+      case "handleReserveSeededWithToken":
+        this.recordSeed("TOKEN", p.seedProvider as string, p.valueAdded as bigint, p.sharesMinted as bigint)
+        this.updateSharePrice()
+        return true
+      case "handleKodiakDeployment":
+      case "handleLPInvestment":
+        this.deployCapital(p.amount as bigint)
+        return true
+      case "handleKodiakInvestment":
+        this.deployCapital(p.amountIn as bigint)
+        return true
+      case "handleLPExitedToToken":
+        this.returnCapital(p.tokenReceived as bigint)
+        return true
+      case "handleLPLiquidationExecuted":
+        this.returnCapital(p.received as bigint)
+        return true
+      case "handleLPTokensWithdrawn":
+        this.updateCapitalAllocation()
+        return true
+      case "handleWhitelistedLPAdded":
+      case "handleWhitelistedLPRemoved":
+        this.setWhitelistStatus("LP", p.lp as string, event.handler === "handleWhitelistedLPAdded")
+        return true
+      case "handleWhitelistedLPTokenAdded":
+      case "handleWhitelistedLPTokenRemoved":
+        this.setWhitelistStatus("LP_TOKEN", p.lpToken as string, event.handler === "handleWhitelistedLPTokenAdded")
+        return true
+      case "handleKodiakHookUpdated":
+        this.setKodiakHook(p.newHook as string)
+        return true
+      case "handleTokenRescuedFromHook":
+      case "handleReserveBelowThreshold":
+        this.totalIncidents++
+        return true
+      default:
+        return false
+    }
+  }
+
+  // sender pays the assets; owner receives the shares and is credited with the position
+  private deposit(sender: string, owner: string, assets: bigint): void {
+    this.user(sender)
+    const user = this.user(owner)
+    user.totalDeposited += assets
+    user.costBasis += assets
+    this.totalDeposits += assets
+    this.adjustVaultValue(assets)
+  }
+
+  private withdraw(event: ReplayEvent, sender: string, receiver: string, owner: string, assets: bigint): void {
+    this.user(sender)
+    this.user(receiver)
+    const user = this.user(owner)
+
+    const fee = this.withdrawalFees.get(owner)
+    this.withdrawalFees.delete(owner)
+    const proceeds = fee && fee.transactionHash === event.transactionHash ? fee.netAmount : assets
+    user.realizedPnL += proceeds - this.takePendingBurn(user, event.transactionHash)
+    user.totalWithdrawn += assets
+    this.totalWithdrawals += assets
+    this.adjustVaultValue(-assets)
+  }
+
+  // The vault's _vaultValue moves with every deposit, withdrawal, spillover and backstop, not
+  // only on VaultValueUpdated; Deposit and Withdraw carry the exact amounts it changes by
+  private adjustVaultValue(delta: bigint): void {
+    this.vaultValue += delta
+    this.updateCapitalAllocation()
+    this.updateSharePrice()
+  }
+
+  private updateSharePrice(): void {
+    this.sharePrice = this.totalShares === 0n ? PRECISION : (this.vaultValue * PRECISION) / this.totalShares
+  }
+
+  protected statsValues(): EntityValues {
+    const stats: EntityValues = {
+      ...this.commonStatsValues(),
+      totalDeposits: this.totalDeposits,
+      totalWithdrawals: this.totalWithdrawals,
+      totalSpilloverReceived: this.totalSpilloverReceived,
+      totalBackstopProvided: this.totalBackstopProvided,
+      totalWithdrawalFees: this.totalWithdrawalFees,
+      totalManagementFees: this.totalManagementFees,
+      totalPerformanceFees: this.totalPerformanceFees,
+      mgmtFeeSchedule: this.mgmtFeeSchedule,
+      totalShares: this.totalShares,
+      sharePrice: this.sharePrice,
+    }
+    if (this.reserve) stats.currentDepositCap = this.currentDepositCap
+    return stats
+  }
+
+  protected userValues(user: UserState): EntityValues {
+    return this.commonUserValues(user)
+  }
+}
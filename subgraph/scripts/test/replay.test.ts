@@ -0,0 +1,39 @@
+import assert from "node:assert/strict"
+import * as fs from "fs"
+import * as path from "path"
+import { describe, it } from "node:test"
+import { Ledger } from "../replay/ledger"
+import { decodeLogs, readDataSource, readLogs } from "../replay/logs"
+import { SeniorLedger } from "../replay/senior"
+import { VaultLedger } from "../replay/vault"
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "../..")
+const FIXTURES = path.join(__dirname, "fixtures")
+
+// Replays <subgraph>.logs.json and returns its state in the shape `reconcile --out` writes
+function replayFixture(subgraph: string, ledger: Ledger) {
+  const dataSource = readDataSource(path.join(SUBGRAPH_ROOT, subgraph))
+  const events = decodeLogs(readLogs([path.join(FIXTURES, `${subgraph}.logs.json`)]), dataSource)
+  ledger.replay(events)
+  const { stats, users } = ledger.expected()
+  const state = { block: ledger.lastBlock, stats, users: Object.fromEntries(users) }
+  return JSON.parse(JSON.stringify(state, (_key, value) => (typeof value === "bigint" ? value.toString() : value)))
+}
+
+function readExpected(subgraph: string) {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${subgraph}.expected.json`), "utf8"))
+}
+
+describe("replay ledgers", () => {
+  it("reprices the senior fee mint at the new index and realizes PnL on withdrawal", () => {
+    assert.deepEqual(replayFixture("senior", new SeniorLedger()), readExpected("senior"))
+  })
+
+  it("tracks junior seeds, share price and fee-netted withdrawals", () => {
+    assert.deepEqual(replayFixture("junior", new VaultLedger(false)), readExpected("junior"))
+  })
+
+  it("tracks reserve token seeds, deposit cap, backstops and losses", () => {
+    assert.deepEqual(replayFixture("reserve", new VaultLedger(true)), readExpected("reserve"))
+  })
+})
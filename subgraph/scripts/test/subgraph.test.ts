@@ -0,0 +1,120 @@
+import assert from "node:assert/strict"
+import * as path from "path"
+import { after, before, beforeEach, describe, it } from "node:test"
+import { GraphQLRequest, MockServer } from "../../client/test/mock-server"
+import { EntityValues, ExpectedState } from "../replay/ledger"
+import { decodeLogs, readDataSource, readLogs } from "../replay/logs"
+import { ActualValues, diffState, fetchActualState } from "../replay/subgraph"
+import { VaultLedger } from "../replay/vault"
+
+const SUBGRAPH_ROOT = path.resolve(__dirname, "../..")
+const FIXTURES = path.join(__dirname, "fixtures")
+
+// Enough users that fetchActualState has to follow its id cursor past graph-node's cap
+const EXTRA_USERS = 1500
+const GRAPH_NODE_CAP = 1000
+
+function replayJunior(): { state: ExpectedState; block: number } {
+  const dataSource = readDataSource(path.join(SUBGRAPH_ROOT, "junior"))
+  const ledger = new VaultLedger(false)
+  ledger.replay(decodeLogs(readLogs([path.join(FIXTURES, "junior.logs.json")]), dataSource))
+  const state = ledger.expected()
+
+  const template = state.users.values().next().value as EntityValues
+  for (let i = 0; i < EXTRA_USERS; i++) {
+    const address = `0x${(0x1000 + i).toString(16).padStart(40, "0")}`
+    state.users.set(address, Object.fromEntries(Object.keys(template).map((field) => [field, 0n])))
+  }
+  return { state, block: ledger.lastBlock }
+}
+
+// What graph-node returns for an entity: BigInts as decimal strings, Ints as numbers
+function asResponse(values: EntityValues): ActualValues {
+  return Object.fromEntries(
+    Object.entries(values).map(([field, value]) => [field, typeof value === "bigint" ? value.toString() : value])
+  )
+}
+
+describe("subgraph diff", () => {
+  const { state: expected, block } = replayJunior()
+  const statsFields = Object.keys(expected.stats)
+  const userFields = Object.keys(expected.users.values().next().value as EntityValues)
+
+  let stats: ActualValues
+  let users: (ActualValues & { id: string })[]
+
+  // Serves protocolStats and id-paged users the way graph-node does
+  function serve(request: GraphQLRequest) {
+    assert.equal(request.variables.block, block)
+    if (request.query.includes("protocolStats")) return { body: { data: { protocolStats: stats } } }
+    const page = users.filter((user) => user.id > request.variables.cursor).slice(0, GRAPH_NODE_CAP)
+    return { body: { data: { users: page } } }
+  }
+
+  const server = new MockServer(serve)
+
+  before(() => server.start())
+  after(() => server.stop())
+  beforeEach(() => {
+    server.requests.length = 0
+    stats = asResponse(expected.stats)
+    users = [...expected.users]
+      .map(([id, values]) => ({ id, ...asResponse(values) }))
+      .sort((a, b) => (a.id < b.id ? -1 : 1))
+  })
+
+  async function diff() {
+    return diffState(expected, await fetchActualState(server.url, block, statsFields, userFields))
+  }
+
+  it("pages through every user and reports nothing when the subgraph agrees", async () => {
+    const actual = await fetchActualState(server.url, block, statsFields, userFields)
+
+    assert.equal(actual.users.size, expected.users.size)
+    assert.deepEqual(
+      server.requests.slice(1).map((request) => request.variables.cursor),
+      ["", users[GRAPH_NODE_CAP - 1].id]
+    )
+    assert.deepEqual(diffState(expected, actual), [])
+  })
+
+  it("reports a ProtocolStats field that differs", async () => {
+    stats.sharePrice = "1000000000000000000"
+
+    assert.deepEqual(await diff(), [
+      {
+        entity: "ProtocolStats:protocol",
+        field: "sharePrice",
+        expected: "1366666666666666666",
+        actual: "1000000000000000000",
+      },
+    ])
+  })
+
+  it("reports a user total and a balance that differ", async () => {
+    const alice = users.find((user) => user.id === "0x00000000000000000000000000000000000000a1")!
+    alice.totalWithdrawn = "656"
+    const last = users[users.length - 1]
+    last.shareBalance = "1"
+
+    assert.deepEqual(await diff(), [
+      { entity: `User:${alice.id}`, field: "totalWithdrawn", expected: "650", actual: "656" },
+      { entity: `User:${last.id}`, field: "shareBalance", expected: "0", actual: "1" },
+    ])
+  })
+
+  it("reports users only one side knows about", async () => {
+    const dropped = users.shift()!
+    users.push({ ...asResponse(expected.users.get(dropped.id)!), id: "0xffffffffffffffffffffffffffffffffffffffff" })
+
+    assert.deepEqual(await diff(), [
+      { entity: `User:${dropped.id}`, field: "id", expected: dropped.id, actual: "missing" },
+      {
+        entity: "User:0xffffffffffffffffffffffffffffffffffffffff",
+        field: "id",
+        expected: "missing",
+        actual: "0xffffffffffffffffffffffffffffffffffffffff",
+      },
+    ])
+  })
+})
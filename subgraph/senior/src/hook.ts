@@ -0,0 +1,171 @@
+import { BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import {
+  LPLiquidated as LPLiquidatedEvent,
+  AggregatorZapExecuted as AggregatorZapExecutedEvent,
+  AggregatorWhitelisted as AggregatorWhitelistedEvent,
+  SlippageUpdated as SlippageUpdatedEvent,
+  RouterUpdated as RouterUpdatedEvent,
+  IslandUpdated as IslandUpdatedEvent,
+  WBERAUpdated as WBERAUpdatedEvent,
+  LPParametersUpdated as LPParametersUpdatedEvent
+} from "../generated/templates/KodiakVaultHook/KodiakVaultHook"
+import {
+  KodiakHook,
+  HookLiquidation,
+  AggregatorTarget,
+  AggregatorZap,
+  HookConfigChange
+} from "../generated/schema"
+
+// Hook entities are created by the vault when it templates the hook, so they always exist here
+function getHook(event: ethereum.Event): KodiakHook {
+  let hook = KodiakHook.load(event.address.toHexString())!
+  hook.lastUpdateTimestamp = event.block.timestamp
+  return hook
+}
+
+function getOrCreateAggregatorTarget(hook: KodiakHook, target: Bytes): AggregatorTarget {
+  let id = hook.id + "-" + target.toHexString()
+  let aggregator = AggregatorTarget.load(id)
+  if (aggregator == null) {
+    aggregator = new AggregatorTarget(id)
+    aggregator.hook = hook.id
+    aggregator.target = target
+    aggregator.isWhitelisted = false
+    aggregator.zapCount = 0
+    aggregator.totalValue = BigInt.fromI32(0)
+  }
+  return aggregator
+}
+
+function createConfigChange(event: ethereum.Event, type: string): HookConfigChange {
+  let change = new HookConfigChange(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  change.hook = event.address.toHexString()
+  change.type = type
+  change.timestamp = event.block.timestamp
+  change.blockNumber = event.block.number
+  change.transactionHash = event.transaction.hash
+  return change
+}
+
+export function handleLPLiquidated(event: LPLiquidatedEvent): void {
+  let liquidation = new HookLiquidation(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  liquidation.hook = event.address.toHexString()
+  liquidation.requested = event.params.requested
+  liquidation.lpBurned = event.params.lpBurned
+  liquidation.honeyReceived = event.params.honeyReceived
+  liquidation.wbtcKept = event.params.wbtcKept
+  liquidation.timestamp = event.block.timestamp
+  liquidation.blockNumber = event.block.number
+  liquidation.transactionHash = event.transaction.hash
+  liquidation.save()
+  
+  // The vault's LPLiquidationExecuted follows in the same transaction and claims this
+  let hook = getHook(event)
+  hook.pendingLiquidation = liquidation.id
+  hook.totalLiquidations = hook.totalLiquidations + 1
+  hook.totalLPBurned = hook.totalLPBurned.plus(event.params.lpBurned)
+  hook.totalHoneyReceived = hook.totalHoneyReceived.plus(event.params.honeyReceived)
+  hook.totalWbtcKept = hook.totalWbtcKept.plus(event.params.wbtcKept)
+  hook.save()
+}
+
+export function handleAggregatorZapExecuted(event: AggregatorZapExecutedEvent): void {
+  let hook = getHook(event)
+  hook.totalZaps = hook.totalZaps + 1
+  hook.save()
+  
+  let aggregator = getOrCreateAggregatorTarget(hook, event.params.target)
+  aggregator.zapCount = aggregator.zapCount + 1
+  aggregator.totalValue = aggregator.totalValue.plus(event.params.value)
+  aggregator.lastZapTimestamp = event.block.timestamp
+  aggregator.lastUpdateTimestamp = event.block.timestamp
+  aggregator.save()
+  
+  let zap = new AggregatorZap(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  zap.hook = hook.id
+  zap.aggregator = aggregator.id
+  zap.target = event.params.target
+  zap.value = event.params.value
+  zap.selector = event.params.selector
+  zap.timestamp = event.block.timestamp
+  zap.blockNumber = event.block.number
+  zap.transactionHash = event.transaction.hash
+  zap.save()
+}
+
+export function handleAggregatorWhitelisted(event: AggregatorWhitelistedEvent): void {
+  let hook = getHook(event)
+  hook.save()
+  
+  let aggregator = getOrCreateAggregatorTarget(hook, event.params.target)
+  aggregator.isWhitelisted = event.params.status
+  aggregator.lastUpdateTimestamp = event.block.timestamp
+  aggregator.save()
+  
+  let change = createConfigChange(event, "AGGREGATOR_WHITELIST")
+  change.address = event.params.target
+  change.status = event.params.status
+  change.save()
+}
+
+export function handleSlippageUpdated(event: SlippageUpdatedEvent): void {
+  let hook = getHook(event)
+  hook.minSharesPerAssetBps = event.params.minSharesPerAssetBps
+  hook.minAssetOutBps = event.params.minAssetOutBps
+  hook.save()
+  
+  let change = createConfigChange(event, "SLIPPAGE")
+  change.minSharesPerAssetBps = event.params.minSharesPerAssetBps
+  change.minAssetOutBps = event.params.minAssetOutBps
+  change.save()
+}
+
+export function handleRouterUpdated(event: RouterUpdatedEvent): void {
+  let hook = getHook(event)
+  hook.router = event.params.router
+  hook.save()
+  
+  let change = createConfigChange(event, "ROUTER")
+  change.address = event.params.router
+  change.save()
+}
+
+export function handleIslandUpdated(event: IslandUpdatedEvent): void {
+  let hook = getHook(event)
+  hook.island = event.params.island
+  hook.save()
+  
+  let change = createConfigChange(event, "ISLAND")
+  change.address = event.params.island
+  change.save()
+}
+
+export function handleWBERAUpdated(event: WBERAUpdatedEvent): void {
+  let hook = getHook(event)
+  hook.wbera = event.params.wbera
+  hook.save()
+  
+  let change = createConfigChange(event, "WBERA")
+  change.address = event.params.wbera
+  change.save()
+}
+
+export function handleLPParametersUpdated(event: LPParametersUpdatedEvent): void {
+  let hook = getHook(event)
+  hook.safetyMultiplier = event.params.safetyMultiplier
+  hook.save()
+  
+  let change = createConfigChange(event, "LP_PARAMETERS")
+  change.safetyMultiplier = event.params.safetyMultiplier
+  change.save()
+}
@@ -1,4 +1,4 @@
-import { BigInt, Bytes } from "@graphprotocol/graph-ts"
+import { Address, BigInt, Bytes, dataSource, ethereum } from "@graphprotocol/graph-ts"
 import {
   Deposit as DepositEvent,
   Withdraw as WithdrawEvent,
@@ -9,8 +9,41 @@ import {
   WithdrawalPenaltyCharged as WithdrawalPenaltyChargedEvent,
   VaultValueUpdated as VaultValueUpdatedEvent,
   FeesCollected as FeesCollectedEvent,
-  BGTClaimed as BGTClaimedEvent
+  BGTClaimed as BGTClaimedEvent,
+  Rebase as RebaseEvent,
+  RebaseExecuted as RebaseExecutedEvent,
+  WithdrawalFeeCharged as WithdrawalFeeChargedEvent,
+  AdminSet as AdminSetEvent,
+  AdminTransferred as AdminTransferredEvent,
+  SeederAdded as SeederAddedEvent,
+  SeederRevoked as SeederRevokedEvent,
+  LiquidityManagerSet as LiquidityManagerSetEvent,
+  PriceFeedManagerSet as PriceFeedManagerSetEvent,
+  ContractUpdaterSet as ContractUpdaterSetEvent,
+  Upgraded as UpgradedEvent,
+  Initialized as InitializedEvent,
+  KodiakHookUpdated as KodiakHookUpdatedEvent,
+  KodiakDeployment as KodiakDeploymentEvent,
+  LPInvestment as LPInvestmentEvent,
+  LPTokensWithdrawn as LPTokensWithdrawnEvent,
+  LPLiquidationExecuted as LPLiquidationExecutedEvent,
+  LiquidityFreedForWithdrawal as LiquidityFreedForWithdrawalEvent,
+  WhitelistedLPAdded as WhitelistedLPAddedEvent,
+  WhitelistedLPRemoved as WhitelistedLPRemovedEvent,
+  WhitelistedLPTokenAdded as WhitelistedLPTokenAddedEvent,
+  WhitelistedLPTokenRemoved as WhitelistedLPTokenRemovedEvent,
+  VaultSeeded as VaultSeededEvent,
+  RewardVaultSet as RewardVaultSetEvent,
+  StakedIntoRewardVault as StakedIntoRewardVaultEvent,
+  WithdrawnFromRewardVault as WithdrawnFromRewardVaultEvent,
+  BackstopShortfall as BackstopShortfallEvent,
+  Paused as PausedEvent,
+  Unpaused as UnpausedEvent,
+  EmergencyWithdraw as EmergencyWithdrawEvent,
+  SeniorVault
 } from "../generated/SeniorVault/SeniorVault"
+import { KodiakVaultHook } from "../generated/SeniorVault/KodiakVaultHook"
+import { KodiakVaultHook as KodiakVaultHookTemplate } from "../generated/templates"
 import {
   User,
   Deposit,
@@ -19,19 +52,67 @@ import {
   Backstop,
   Spillover,
   Cooldown,
+  CooldownState,
   Penalty,
   VaultValue,
   FeeCollection,
   BGTClaim,
-  ProtocolStats
+  Epoch,
+  EpochTransaction,
+  Treasury,
+  FeeLedgerEntry,
+  RoleAssignment,
+  CurrentRoles,
+  Implementation,
+  Upgrade,
+  LPPosition,
+  LPDeployment,
+  LPLiquidation,
+  LiquidityRelease,
+  LPExit,
+  KodiakHook,
+  HookLiquidation,
+  WhitelistEntry,
+  WhitelistChange,
+  Seed,
+  RewardVaultPosition,
+  RewardVaultStake,
+  RewardVaultChange,
+  BGTRecipient,
+  RewardVaultDayData,
+  YieldStats,
+  YieldCheckpoint,
+  HealthState,
+  ZoneTransition,
+  BackstopShortfall,
+  Incident,
+  Outage,
+  VaultStateAtBlock,
+  PointsPeriod,
+  PointsPeriodIndex,
+  ProtocolStats,
+  VaultHourSnapshot,
+  VaultDaySnapshot
 } from "../generated/schema"
 
+let PRECISION = BigInt.fromString("1000000000000000000")
+let COOLDOWN_PERIOD = BigInt.fromI32(7 * 24 * 60 * 60)
+let SECONDS_PER_YEAR = BigInt.fromI32(365 * 24 * 60 * 60)
+let DEFAULT_POINTS_PERIOD = 7 * 24 * 60 * 60
+
 function getOrCreateUser(address: Bytes): User {
   let user = User.load(address.toHexString())
   if (user == null) {
     user = new User(address.toHexString())
     user.totalDeposited = BigInt.fromI32(0)
     user.totalWithdrawn = BigInt.fromI32(0)
+    user.totalFeesPaid = BigInt.fromI32(0)
+    user.costBasis = BigInt.fromI32(0)
+    user.realizedPnL = BigInt.fromI32(0)
+    user.shareBalance = BigInt.fromI32(0)
+    user.balanceSeconds = BigInt.fromI32(0)
+    user.balanceSecondsTimestamp = BigInt.fromI32(0)
+    user.indexSeconds = BigInt.fromI32(0)
     user.lastActivityTimestamp = BigInt.fromI32(0)
     user.save()
     
@@ -49,15 +130,1061 @@ function getOrCreateProtocolStats(): ProtocolStats {
     stats = new ProtocolStats("protocol")
     stats.totalDeposits = BigInt.fromI32(0)
     stats.totalWithdrawals = BigInt.fromI32(0)
+    stats.totalSpilloverAmount = BigInt.fromI32(0)
+    stats.totalBackstopAmount = BigInt.fromI32(0)
+    stats.totalWithdrawalFees = BigInt.fromI32(0)
+    stats.totalManagementFees = BigInt.fromI32(0)
+    stats.totalPerformanceFees = BigInt.fromI32(0)
+    stats.vaultValue = BigInt.fromI32(0)
+    stats.totalCapitalDeployed = BigInt.fromI32(0)
+    stats.totalCapitalReturned = BigInt.fromI32(0)
+    stats.deployedCapital = BigInt.fromI32(0)
+    stats.idleCapital = BigInt.fromI32(0)
+    stats.whitelistedLPs = 0
+    stats.whitelistedLPTokens = 0
+    stats.totalSeeds = 0
+    stats.totalSeededValue = BigInt.fromI32(0)
+    stats.totalSeededShares = BigInt.fromI32(0)
+    stats.totalSeededLPValue = BigInt.fromI32(0)
+    stats.totalShares = BigInt.fromI32(0)
     stats.totalUsers = 0
+    stats.totalHolders = 0
     stats.totalBackstops = 0
     stats.totalSpillovers = 0
+    stats.totalRebases = 0
+    stats.totalIncidents = 0
+    stats.totalOutages = 0
+    stats.paused = false
+    stats.currentEpoch = BigInt.fromI32(0)
+    stats.rebaseIndex = PRECISION
+    stats.indexSeconds = BigInt.fromI32(0)
+    stats.indexSecondsTimestamp = BigInt.fromI32(0)
     stats.lastUpdateTimestamp = BigInt.fromI32(0)
     stats.save()
   }
   return stats
 }
 
+// Entities are tagged with the implementation behind the proxy when emitted
+function getCurrentImplementation(): string | null {
+  return getOrCreateProtocolStats().currentImplementation
+}
+
+// Mirrors MathLib: balances are shares scaled by the rebase index, and burns
+// round the share amount up in favour of the protocol.
+function sharesFromBalance(balance: BigInt, rebaseIndex: BigInt, roundUp: boolean): BigInt {
+  let numerator = balance.times(PRECISION)
+  if (roundUp) {
+    numerator = numerator.plus(rebaseIndex).minus(BigInt.fromI32(1))
+  }
+  return numerator.div(rebaseIndex)
+}
+
+// Average-cost accounting: shares leaving a holder take a pro-rata slice of its cost basis
+function removeCostBasis(user: User, shares: BigInt): BigInt {
+  if (user.shareBalance.le(BigInt.fromI32(0))) return BigInt.fromI32(0)
+  
+  let removed = shares.ge(user.shareBalance)
+    ? user.costBasis
+    : user.costBasis.times(shares).div(user.shareBalance)
+  user.costBasis = user.costBasis.minus(removed)
+  return removed
+}
+
+// rebase() and seedVault() mint before emitting Rebase or VaultSeeded, so those
+// handlers pick the mint up from ProtocolStats.lastMint within their transaction
+function findTransactionMint(event: ethereum.Event, recipient: Bytes | null): Transfer | null {
+  let lastMint = getOrCreateProtocolStats().lastMint
+  if (lastMint == null) return null
+  let mint = Transfer.load(lastMint!)
+  if (mint == null || !mint.transactionHash.equals(event.transaction.hash)) return null
+  if (recipient !== null && !mint.to.equals(recipient)) return null
+  return mint
+}
+
+// Campaigns set the period length through the data source context; weekly otherwise
+function pointsPeriodLength(): i32 {
+  let length = dataSource.context().get("pointsPeriodSeconds")
+  return length === null ? DEFAULT_POINTS_PERIOD : length.toI32()
+}
+
+function advanceIndexSeconds(stats: ProtocolStats, timestamp: BigInt): void {
+  if (stats.indexSecondsTimestamp.isZero()) {
+    stats.indexSecondsTimestamp = timestamp
+    return
+  }
+  if (timestamp.le(stats.indexSecondsTimestamp)) return
+  let elapsed = timestamp.minus(stats.indexSecondsTimestamp)
+  stats.indexSeconds = stats.indexSeconds.plus(stats.rebaseIndex.times(elapsed))
+  stats.indexSecondsTimestamp = timestamp
+}
+
+// Rebase index × seconds, accrued before every index move and balance change. A holder's
+// rebased balance-seconds over any span is its shares times this counter's growth.
+function accrueIndexSeconds(stats: ProtocolStats, timestamp: BigInt): PointsPeriodIndex {
+  let length = pointsPeriodLength()
+  let period = timestamp.toI32() / length
+  let index = PointsPeriodIndex.load(period.toString())
+  if (index == null) {
+    index = new PointsPeriodIndex(period.toString())
+    index.period = period
+    index.periodStartUnix = period * length
+    index.periodEndUnix = (period + 1) * length
+    // No accrual yet this period, so the index held since the last one spans the boundary
+    advanceIndexSeconds(stats, BigInt.fromI32(index.periodStartUnix))
+    index.startIndexSeconds = stats.indexSeconds
+  }
+  advanceIndexSeconds(stats, timestamp)
+  index.indexSeconds = stats.indexSeconds
+  index.rebaseIndex = stats.rebaseIndex
+  index.lastUpdateTimestamp = timestamp
+  index.save()
+  return index
+}
+
+function setRebaseIndex(stats: ProtocolStats, newIndex: BigInt, timestamp: BigInt): void {
+  let index = accrueIndexSeconds(stats, timestamp)
+  stats.rebaseIndex = newIndex
+  index.rebaseIndex = newIndex
+  index.save()
+}
+
+function accrueBalanceSeconds(user: User, indexSeconds: BigInt): void {
+  let growth = indexSeconds.minus(user.indexSeconds)
+  user.balanceSeconds = user.balanceSeconds.plus(user.shareBalance.times(growth).div(PRECISION))
+  user.indexSeconds = indexSeconds
+}
+
+// Balance-seconds accrue lazily on each balance change. A period's allocation is its
+// end value minus startBalanceSeconds, extrapolating shareBalance over the index's growth.
+function checkpointBalanceSeconds(user: User, timestamp: BigInt): PointsPeriod {
+  let stats = getOrCreateProtocolStats()
+  let index = accrueIndexSeconds(stats, timestamp)
+  stats.save()
+  
+  let id = user.id + "-" + index.period.toString()
+  let points = PointsPeriod.load(id)
+  if (points == null) {
+    points = new PointsPeriod(id)
+    points.user = user.id
+    points.index = index.id
+    points.period = index.period
+    points.periodStartUnix = index.periodStartUnix
+    points.periodEndUnix = index.periodEndUnix
+    // No checkpoint yet this period, so the shares held since the last one span the boundary
+    accrueBalanceSeconds(user, index.startIndexSeconds)
+    points.startBalanceSeconds = user.balanceSeconds
+  }
+  accrueBalanceSeconds(user, index.indexSeconds)
+  user.balanceSecondsTimestamp = timestamp
+  points.balanceSeconds = user.balanceSeconds
+  points.indexSeconds = index.indexSeconds
+  points.lastUpdateTimestamp = timestamp
+  return points
+}
+
+function adjustShareBalance(user: User, delta: BigInt, timestamp: BigInt): void {
+  let points = checkpointBalanceSeconds(user, timestamp)
+  let wasHolder = user.shareBalance.gt(BigInt.fromI32(0))
+  user.shareBalance = user.shareBalance.plus(delta)
+  user.save()
+  
+  points.shareBalance = user.shareBalance
+  points.save()
+  
+  let isHolder = user.shareBalance.gt(BigInt.fromI32(0))
+  if (wasHolder != isHolder) {
+    let stats = getOrCreateProtocolStats()
+    stats.totalHolders = isHolder ? stats.totalHolders + 1 : stats.totalHolders - 1
+    stats.save()
+  }
+}
+
+function getOrCreateEpoch(epochNumber: BigInt, event: ethereum.Event): Epoch {
+  let epoch = Epoch.load(epochNumber.toString())
+  if (epoch == null) {
+    epoch = new Epoch(epochNumber.toString())
+    epoch.epoch = epochNumber
+    epoch.apyTier = 0
+    epoch.oldIndex = BigInt.fromI32(0)
+    epoch.newIndex = BigInt.fromI32(0)
+    epoch.newSupply = BigInt.fromI32(0)
+    epoch.newTotalSupply = BigInt.fromI32(0)
+    epoch.zone = 0
+    epoch.backingRatio = BigInt.fromI32(0)
+    epoch.targetApyBps = BigInt.fromI32(0)
+    epoch.timestamp = event.block.timestamp
+    epoch.blockNumber = event.block.number
+    epoch.transactionHash = event.transaction.hash
+    epoch.implementation = getCurrentImplementation()
+    epoch.save()
+    
+    let stats = getOrCreateProtocolStats()
+    stats.totalRebases = stats.totalRebases + 1
+    stats.save()
+  }
+  return epoch
+}
+
+// Spillover and backstop are emitted before the rebase events in the same
+// transaction, so records are parked here until the epoch is known.
+function getOrCreateEpochTransaction(txHash: Bytes): EpochTransaction {
+  let link = EpochTransaction.load(txHash.toHexString())
+  if (link == null) {
+    link = new EpochTransaction(txHash.toHexString())
+    link.pendingSpillovers = []
+    link.pendingBackstops = []
+    link.pendingFeeCollections = []
+    link.pendingVaultValues = []
+  }
+  return link
+}
+
+function linkEpochTransaction(epoch: Epoch, txHash: Bytes): void {
+  let link = getOrCreateEpochTransaction(txHash)
+  if (link.epoch != null) return
+  
+  let spillovers = link.pendingSpillovers
+  for (let i = 0; i < spillovers.length; i++) {
+    let spillover = Spillover.load(spillovers[i])
+    if (spillover != null) {
+      spillover.epoch = epoch.id
+      spillover.save()
+    }
+  }
+  
+  let backstops = link.pendingBackstops
+  for (let i = 0; i < backstops.length; i++) {
+    let backstop = Backstop.load(backstops[i])
+    if (backstop != null) {
+      backstop.epoch = epoch.id
+      backstop.save()
+    }
+  }
+  
+  let feeCollections = link.pendingFeeCollections
+  for (let i = 0; i < feeCollections.length; i++) {
+    let fees = FeeCollection.load(feeCollections[i])
+    if (fees != null) {
+      fees.epoch = epoch.id
+      fees.save()
+    }
+  }
+  
+  let vaultValues = link.pendingVaultValues
+  for (let i = 0; i < vaultValues.length; i++) {
+    let vaultValue = VaultValue.load(vaultValues[i])
+    if (vaultValue != null) {
+      vaultValue.epoch = epoch.id
+      vaultValue.save()
+    }
+  }
+  
+  link.epoch = epoch.id
+  link.pendingSpillovers = []
+  link.pendingBackstops = []
+  link.pendingFeeCollections = []
+  link.pendingVaultValues = []
+  link.save()
+}
+
+// Senior share price is the rebase index: assets per internal share.
+// eth_call reads end-of-block state, so one record serves every event in the block.
+// Views missing from older implementations revert and leave their field null.
+function getOrCreateVaultState(event: ethereum.Event): VaultStateAtBlock {
+  let id = event.address.toHexString() + "-" + event.block.number.toString()
+  let state = VaultStateAtBlock.load(id)
+  if (state != null) return state
+  
+  state = new VaultStateAtBlock(id)
+  state.vault = event.address
+  let contract = SeniorVault.bind(event.address)
+  
+  let vaultValue = contract.try_vaultValue()
+  if (!vaultValue.reverted) state.totalAssets = vaultValue.value
+  let totalSupply = contract.try_totalSupply()
+  if (!totalSupply.reverted) state.totalSupply = totalSupply.value
+  let totalShares = contract.try_totalShares()
+  if (!totalShares.reverted) {
+    state.totalShares = totalShares.value
+    if (!vaultValue.reverted && !totalShares.value.isZero()) {
+      state.pricePerShare = vaultValue.value.times(PRECISION).div(totalShares.value)
+    }
+  }
+  let rebaseIndex = contract.try_rebaseIndex()
+  if (!rebaseIndex.reverted) state.rebaseIndex = rebaseIndex.value
+  let backingRatio = contract.try_backingRatio()
+  if (!backingRatio.reverted) state.backingRatio = backingRatio.value
+  let zone = contract.try_currentZone()
+  if (!zone.reverted) state.zone = zoneName(zone.value)
+  
+  state.timestamp = event.block.timestamp
+  state.blockNumber = event.block.number
+  state.save()
+  return state
+}
+
+function updateVaultHourSnapshot(event: ethereum.Event): VaultHourSnapshot {
+  let hourIndex = event.block.timestamp.toI32() / 3600
+  let snapshot = VaultHourSnapshot.load(hourIndex.toString())
+  if (snapshot == null) {
+    snapshot = new VaultHourSnapshot(hourIndex.toString())
+    snapshot.periodStartUnix = hourIndex * 3600
+    snapshot.deposits = BigInt.fromI32(0)
+    snapshot.withdrawals = BigInt.fromI32(0)
+    snapshot.netFlow = BigInt.fromI32(0)
+    snapshot.withdrawalFees = BigInt.fromI32(0)
+    snapshot.managementFees = BigInt.fromI32(0)
+    snapshot.performanceFees = BigInt.fromI32(0)
+    snapshot.spilloverAmount = BigInt.fromI32(0)
+    snapshot.backstopAmount = BigInt.fromI32(0)
+  }
+  
+  let stats = getOrCreateProtocolStats()
+  snapshot.vaultValue = stats.vaultValue
+  snapshot.totalShares = stats.totalShares
+  snapshot.sharePrice = stats.rebaseIndex
+  snapshot.totalHolders = stats.totalHolders
+  snapshot.totalDeposits = stats.totalDeposits
+  snapshot.totalWithdrawals = stats.totalWithdrawals
+  snapshot.lastUpdateTimestamp = event.block.timestamp
+  snapshot.save()
+  return snapshot
+}
+
+function updateVaultDaySnapshot(event: ethereum.Event): VaultDaySnapshot {
+  let dayIndex = event.block.timestamp.toI32() / 86400
+  let snapshot = VaultDaySnapshot.load(dayIndex.toString())
+  if (snapshot == null) {
+    snapshot = new VaultDaySnapshot(dayIndex.toString())
+    snapshot.periodStartUnix = dayIndex * 86400
+    snapshot.deposits = BigInt.fromI32(0)
+    snapshot.withdrawals = BigInt.fromI32(0)
+    snapshot.netFlow = BigInt.fromI32(0)
+    snapshot.withdrawalFees = BigInt.fromI32(0)
+    snapshot.managementFees = BigInt.fromI32(0)
+    snapshot.performanceFees = BigInt.fromI32(0)
+    snapshot.spilloverAmount = BigInt.fromI32(0)
+    snapshot.backstopAmount = BigInt.fromI32(0)
+  }
+  
+  let stats = getOrCreateProtocolStats()
+  snapshot.vaultValue = stats.vaultValue
+  snapshot.totalShares = stats.totalShares
+  snapshot.sharePrice = stats.rebaseIndex
+  snapshot.totalHolders = stats.totalHolders
+  snapshot.totalDeposits = stats.totalDeposits
+  snapshot.totalWithdrawals = stats.totalWithdrawals
+  snapshot.lastUpdateTimestamp = event.block.timestamp
+  snapshot.save()
+  return snapshot
+}
+
+function getOrCreateRewardVaultPosition(vault: Address): RewardVaultPosition {
+  let position = RewardVaultPosition.load(vault.toHexString())
+  if (position == null) {
+    position = new RewardVaultPosition(vault.toHexString())
+    position.vault = vault
+    position.stakedAmount = BigInt.fromI32(0)
+    position.totalStaked = BigInt.fromI32(0)
+    position.totalWithdrawn = BigInt.fromI32(0)
+    position.totalBGTClaimed = BigInt.fromI32(0)
+    position.lastUpdateTimestamp = BigInt.fromI32(0)
+  }
+  return position
+}
+
+// Rate is BGT claimed during the day per unit of LP staked when the day was last touched
+function updateRewardVaultDayData(
+  event: ethereum.Event,
+  position: RewardVaultPosition
+): RewardVaultDayData {
+  let dayIndex = event.block.timestamp.toI32() / 86400
+  let dayData = RewardVaultDayData.load(dayIndex.toString())
+  if (dayData == null) {
+    dayData = new RewardVaultDayData(dayIndex.toString())
+    dayData.position = position.id
+    dayData.periodStartUnix = dayIndex * 86400
+    dayData.staked = BigInt.fromI32(0)
+    dayData.withdrawn = BigInt.fromI32(0)
+    dayData.bgtClaimed = BigInt.fromI32(0)
+  }
+  
+  dayData.stakedAmount = position.stakedAmount
+  dayData.lastUpdateTimestamp = event.block.timestamp
+  return dayData
+}
+
+function saveRewardVaultDayData(dayData: RewardVaultDayData): void {
+  dayData.bgtPerStakedUnit = dayData.stakedAmount.isZero()
+    ? BigInt.fromI32(0)
+    : dayData.bgtClaimed.times(PRECISION).div(dayData.stakedAmount)
+  dayData.save()
+}
+
+function recordRewardVaultStake(event: ethereum.Event, type: string, amount: BigInt): void {
+  let position = getOrCreateRewardVaultPosition(event.address)
+  if (type == "STAKE") {
+    position.stakedAmount = position.stakedAmount.plus(amount)
+    position.totalStaked = position.totalStaked.plus(amount)
+  } else {
+    // Unstakes made while freeing liquidity for withdrawals are not logged, so never go below zero
+    position.stakedAmount = position.stakedAmount.gt(amount)
+      ? position.stakedAmount.minus(amount)
+      : BigInt.fromI32(0)
+    position.totalWithdrawn = position.totalWithdrawn.plus(amount)
+  }
+  position.lastUpdateTimestamp = event.block.timestamp
+  position.save()
+  
+  let stake = new RewardVaultStake(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  stake.position = position.id
+  stake.type = type
+  stake.rewardVault = position.rewardVault
+  stake.amount = amount
+  stake.stakedAfter = position.stakedAmount
+  stake.timestamp = event.block.timestamp
+  stake.blockNumber = event.block.number
+  stake.transactionHash = event.transaction.hash
+  stake.implementation = getCurrentImplementation()
+  stake.save()
+  
+  let dayData = updateRewardVaultDayData(event, position)
+  if (type == "STAKE") {
+    dayData.staked = dayData.staked.plus(amount)
+  } else {
+    dayData.withdrawn = dayData.withdrawn.plus(amount)
+  }
+  saveRewardVaultDayData(dayData)
+}
+
+// Mirrors RebaseLib.getAPYInBps
+function apyTierBps(apyTier: i32): BigInt {
+  if (apyTier == 3) return BigInt.fromI32(1300)
+  if (apyTier == 2) return BigInt.fromI32(1200)
+  if (apyTier == 1) return BigInt.fromI32(1100)
+  return BigInt.fromI32(0)
+}
+
+function getOrCreateYieldStats(vault: Address): YieldStats {
+  let yieldStats = YieldStats.load(vault.toHexString())
+  if (yieldStats == null) {
+    yieldStats = new YieldStats(vault.toHexString())
+    yieldStats.vault = vault
+    yieldStats.yieldIndex = PRECISION
+    yieldStats.nonRebasing = false
+    yieldStats.lastUpdateTimestamp = BigInt.fromI32(0)
+  }
+  return yieldStats
+}
+
+// Walks back to the last day closing at or before the window start; APY is simple-annualised
+function trailingApyBps(latest: YieldCheckpoint, windowDays: i32, timestamp: BigInt): BigInt | null {
+  let base: YieldCheckpoint | null = latest
+  while (base != null && base.dayIndex > latest.dayIndex - windowDays) {
+    base = base.previous == null ? null : YieldCheckpoint.load(base.previous!)
+  }
+  if (base == null) return null
+  
+  let elapsed = timestamp.minus(base.timestamp)
+  if (elapsed.le(BigInt.fromI32(0)) || base.yieldIndex.isZero()) return null
+  return latest.yieldIndex.minus(base.yieldIndex)
+    .times(BigInt.fromI32(10000))
+    .times(SECONDS_PER_YEAR)
+    .div(base.yieldIndex.times(elapsed))
+}
+
+// Keeps one closing index per day, chained so trailing windows can find their start
+function updateYieldStats(event: ethereum.Event, yieldStats: YieldStats): void {
+  let dayIndex = event.block.timestamp.toI32() / 86400
+  let checkpoint = YieldCheckpoint.load(dayIndex.toString())
+  if (checkpoint == null) {
+    checkpoint = new YieldCheckpoint(dayIndex.toString())
+    checkpoint.yieldStats = yieldStats.id
+    checkpoint.dayIndex = dayIndex
+    checkpoint.previous = yieldStats.latestCheckpoint
+  }
+  checkpoint.yieldIndex = yieldStats.yieldIndex
+  checkpoint.timestamp = event.block.timestamp
+  checkpoint.save()
+  
+  yieldStats.latestCheckpoint = checkpoint.id
+  yieldStats.apy1dBps = trailingApyBps(checkpoint, 1, event.block.timestamp)
+  yieldStats.apy7dBps = trailingApyBps(checkpoint, 7, event.block.timestamp)
+  yieldStats.apy30dBps = trailingApyBps(checkpoint, 30, event.block.timestamp)
+  yieldStats.lastUpdateTimestamp = event.block.timestamp
+  yieldStats.save()
+}
+
+// Mirrors SpilloverLib.Zone
+function zoneName(zone: i32): string {
+  if (zone == 0) return "BACKSTOP"
+  if (zone == 2) return "SPILLOVER"
+  return "HEALTHY"
+}
+
+function getOrCreateHealthState(vault: Address): HealthState {
+  let health = HealthState.load(vault.toHexString())
+  if (health == null) {
+    health = new HealthState(vault.toHexString())
+    health.vault = vault
+    health.zone = "HEALTHY"
+    health.backingRatio = PRECISION
+    health.totalTransitions = 0
+    health.totalBackstopFromReserve = BigInt.fromI32(0)
+    health.totalBackstopFromJunior = BigInt.fromI32(0)
+    health.totalShortfalls = 0
+    health.totalShortfallAmount = BigInt.fromI32(0)
+    health.lastUpdateTimestamp = BigInt.fromI32(0)
+  }
+  return health
+}
+
+function updateHealthState(event: ethereum.Event, epoch: Epoch): void {
+  let health = getOrCreateHealthState(event.address)
+  let zone = zoneName(epoch.zone)
+  
+  if (zone != health.zone) {
+    let transition = new ZoneTransition(
+      event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+    )
+    transition.healthState = health.id
+    transition.fromZone = health.zone
+    transition.toZone = zone
+    transition.backingRatio = epoch.backingRatio
+    transition.epoch = epoch.id
+    transition.timestamp = event.block.timestamp
+    transition.blockNumber = event.block.number
+    transition.transactionHash = event.transaction.hash
+    transition.implementation = getCurrentImplementation()
+    transition.save()
+    
+    health.lastTransition = transition.id
+    health.totalTransitions = health.totalTransitions + 1
+  }
+  
+  let minBackingRatio = health.minBackingRatio
+  if (minBackingRatio === null || epoch.backingRatio.lt(minBackingRatio)) {
+    health.minBackingRatio = epoch.backingRatio
+    health.minBackingRatioTimestamp = event.block.timestamp
+  }
+  
+  health.zone = zone
+  health.backingRatio = epoch.backingRatio
+  health.lastEpoch = epoch.id
+  health.lastUpdateTimestamp = event.block.timestamp
+  health.save()
+}
+
+function recordShortfall(
+  event: ethereum.Event,
+  health: HealthState,
+  type: string,
+  source: Bytes | null,
+  requested: BigInt,
+  received: BigInt,
+  backstop: string | null
+): BackstopShortfall {
+  let shortfall = new BackstopShortfall(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  shortfall.healthState = health.id
+  shortfall.type = type
+  shortfall.source = source
+  shortfall.requested = requested
+  shortfall.received = received
+  shortfall.shortfall = requested.gt(received) ? requested.minus(received) : BigInt.fromI32(0)
+  shortfall.backstop = backstop
+  shortfall.timestamp = event.block.timestamp
+  shortfall.blockNumber = event.block.number
+  shortfall.transactionHash = event.transaction.hash
+  shortfall.implementation = getCurrentImplementation()
+  shortfall.save()
+  
+  health.totalShortfalls = health.totalShortfalls + 1
+  health.totalShortfallAmount = health.totalShortfallAmount.plus(shortfall.shortfall)
+  health.lastUpdateTimestamp = event.block.timestamp
+  return shortfall
+}
+
+// Severity: CRITICAL moves or loses funds, HIGH blocks users or signals undercollateralisation,
+// MEDIUM is an admin intervention, LOW resolves an earlier incident
+function recordIncident(event: ethereum.Event, type: string, severity: string): Incident {
+  let incident = new Incident(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  incident.vault = event.address
+  incident.type = type
+  incident.severity = severity
+  incident.timestamp = event.block.timestamp
+  incident.blockNumber = event.block.number
+  incident.transactionHash = event.transaction.hash
+  incident.implementation = getCurrentImplementation()
+  
+  let stats = getOrCreateProtocolStats()
+  stats.totalIncidents = stats.totalIncidents + 1
+  stats.save()
+  return incident
+}
+
+function getOrCreateCooldownState(user: User, timestamp: BigInt): CooldownState {
+  let state = CooldownState.load(user.id)
+  if (state == null) {
+    state = new CooldownState(user.id)
+    state.user = user.id
+    state.startTime = BigInt.fromI32(0)
+    state.maturityTime = BigInt.fromI32(0)
+    state.status = "NONE"
+  }
+  
+  // Maturity is purely time based, so it is re-evaluated whenever touched
+  if (state.status == "PENDING" && timestamp.ge(state.maturityTime)) {
+    state.status = "MATURED"
+  }
+  state.lastUpdateTimestamp = timestamp
+  return state
+}
+
+// Mirrors the vault clearing _cooldownStart: only an active cooldown is reset
+function resetCooldown(user: User, reason: string, timestamp: BigInt): void {
+  let state = getOrCreateCooldownState(user, timestamp)
+  if (!state.startTime.isZero()) {
+    state.startTime = BigInt.fromI32(0)
+    state.maturityTime = BigInt.fromI32(0)
+    state.status = "RESET"
+    state.resetReason = reason
+    state.lastResetTimestamp = timestamp
+  }
+  state.save()
+}
+
+function getOrCreateTreasury(address: Bytes): Treasury {
+  let treasury = Treasury.load(address.toHexString())
+  if (treasury == null) {
+    treasury = new Treasury(address.toHexString())
+    treasury.totalWithdrawalFees = BigInt.fromI32(0)
+    treasury.totalManagementFees = BigInt.fromI32(0)
+    treasury.totalPerformanceFees = BigInt.fromI32(0)
+    treasury.lastUpdateTimestamp = BigInt.fromI32(0)
+    treasury.save()
+  }
+  return treasury
+}
+
+// Fee events don't carry the treasury address, so entries are attributed to
+// the last treasury seen receiving fees (null until then).
+function recordFee(
+  event: ethereum.Event,
+  id: string,
+  type: string,
+  amount: BigInt,
+  user: User | null
+): FeeLedgerEntry {
+  let entry = new FeeLedgerEntry(id)
+  entry.type = type
+  entry.amount = amount
+  entry.user = user != null ? user.id : null
+  entry.timestamp = event.block.timestamp
+  entry.blockNumber = event.block.number
+  entry.transactionHash = event.transaction.hash
+  entry.implementation = getCurrentImplementation()
+  
+  let stats = getOrCreateProtocolStats()
+  if (stats.treasury != null) {
+    let treasury = Treasury.load(stats.treasury!)!
+    if (type == "WITHDRAWAL_FEE") {
+      treasury.totalWithdrawalFees = treasury.totalWithdrawalFees.plus(amount)
+    } else if (type == "MANAGEMENT_FEE") {
+      treasury.totalManagementFees = treasury.totalManagementFees.plus(amount)
+    } else {
+      treasury.totalPerformanceFees = treasury.totalPerformanceFees.plus(amount)
+    }
+    treasury.lastUpdateTimestamp = event.block.timestamp
+    treasury.save()
+    entry.treasury = treasury.id
+  }
+  
+  entry.save()
+  return entry
+}
+
+function getOrCreateCurrentRoles(vault: Address): CurrentRoles {
+  let roles = CurrentRoles.load(vault.toHexString())
+  if (roles == null) {
+    roles = new CurrentRoles(vault.toHexString())
+    roles.seeders = []
+    roles.lastUpdateTimestamp = BigInt.fromI32(0)
+  }
+  return roles
+}
+
+function recordRoleAssignment(
+  event: ethereum.Event,
+  role: string,
+  action: string,
+  account: Bytes,
+  previousAccount: Bytes | null
+): void {
+  let assignment = new RoleAssignment(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  assignment.role = role
+  assignment.action = action
+  assignment.account = account
+  assignment.previousAccount = previousAccount
+  assignment.timestamp = event.block.timestamp
+  assignment.blockNumber = event.block.number
+  assignment.transactionHash = event.transaction.hash
+  assignment.implementation = getCurrentImplementation()
+  assignment.save()
+}
+
+function whitelistEntryId(vault: Address, kind: string, address: Bytes): string {
+  return vault.toHexString() + "-" + kind + "-" + address.toHexString()
+}
+
+function setWhitelistStatus(
+  event: ethereum.Event,
+  kind: string,
+  address: Bytes,
+  isWhitelisted: boolean
+): void {
+  let id = whitelistEntryId(event.address, kind, address)
+  let entry = WhitelistEntry.load(id)
+  if (entry == null) {
+    entry = new WhitelistEntry(id)
+    entry.vault = event.address
+    entry.kind = kind
+    entry.address = address
+    entry.isWhitelisted = false
+  }
+  
+  let changed = entry.isWhitelisted != isWhitelisted
+  entry.isWhitelisted = isWhitelisted
+  if (isWhitelisted) {
+    entry.addedTimestamp = event.block.timestamp
+    entry.addedBlock = event.block.number
+    entry.addedTransaction = event.transaction.hash
+  } else {
+    entry.removedTimestamp = event.block.timestamp
+    entry.removedBlock = event.block.number
+    entry.removedTransaction = event.transaction.hash
+  }
+  entry.lastUpdateTimestamp = event.block.timestamp
+  entry.save()
+  
+  let change = new WhitelistChange(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  change.entry = entry.id
+  change.action = isWhitelisted ? "ADDED" : "REMOVED"
+  change.timestamp = event.block.timestamp
+  change.blockNumber = event.block.number
+  change.transactionHash = event.transaction.hash
+  change.implementation = getCurrentImplementation()
+  change.save()
+  
+  let stats = getOrCreateProtocolStats()
+  if (changed) {
+    let delta = isWhitelisted ? 1 : -1
+    if (kind == "LP") {
+      stats.whitelistedLPs = stats.whitelistedLPs + delta
+    } else {
+      stats.whitelistedLPTokens = stats.whitelistedLPTokens + delta
+    }
+  }
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+function getOrCreateLPPosition(vault: Address, lpToken: Bytes): LPPosition {
+  let id = vault.toHexString() + "-" + lpToken.toHexString()
+  let position = LPPosition.load(id)
+  if (position == null) {
+    position = new LPPosition(id)
+    position.vault = vault
+    position.lpToken = lpToken
+    position.lpHeld = BigInt.fromI32(0)
+    position.lpReceived = BigInt.fromI32(0)
+    position.lpExited = BigInt.fromI32(0)
+    position.capitalDeployed = BigInt.fromI32(0)
+    position.capitalReturned = BigInt.fromI32(0)
+    position.seededValue = BigInt.fromI32(0)
+    position.netCapitalDeployed = BigInt.fromI32(0)
+    position.deploymentCount = 0
+    position.liquidationCount = 0
+    position.exitCount = 0
+    position.lastUpdateTimestamp = BigInt.fromI32(0)
+  }
+  return position
+}
+
+function getKodiakHook(vault: Address): Address {
+  let stats = getOrCreateProtocolStats()
+  if (stats.kodiakHook !== null) {
+    return Address.fromBytes(stats.kodiakHook!)
+  }
+  
+  // Hook configured before the start block
+  let hook = SeniorVault.bind(vault).try_kodiakHook()
+  return hook.reverted ? Address.zero() : hook.value
+}
+
+// Kodiak positions are keyed by the hook's current island, which holds the LP
+function getKodiakLPPosition(event: ethereum.Event): LPPosition {
+  let hook = getKodiakHook(event.address)
+  let island = KodiakVaultHook.bind(hook).try_island()
+  let lpToken = island.reverted ? hook : island.value
+  
+  let position = getOrCreateLPPosition(event.address, lpToken)
+  position.hook = hook
+  return position
+}
+
+// Hook config set in its constructor emits nothing, so the initial values are read once
+function createKodiakHook(vault: Address, address: Address, block: ethereum.Block, transaction: Bytes | null): KodiakHook {
+  let contract = KodiakVaultHook.bind(address)
+  let island = contract.try_island()
+  let router = contract.try_router()
+  let wbera = contract.try_wbera()
+  let minSharesPerAssetBps = contract.try_minSharesPerAssetBps()
+  let minAssetOutBps = contract.try_minAssetOutBps()
+  let safetyMultiplier = contract.try_safetyMultiplier()
+  
+  let hook = new KodiakHook(address.toHexString())
+  hook.vault = vault
+  hook.address = address
+  hook.isActive = true
+  hook.island = island.reverted ? null : island.value
+  hook.router = router.reverted ? null : router.value
+  hook.wbera = wbera.reverted ? null : wbera.value
+  hook.minSharesPerAssetBps = minSharesPerAssetBps.reverted ? BigInt.fromI32(0) : minSharesPerAssetBps.value
+  hook.minAssetOutBps = minAssetOutBps.reverted ? BigInt.fromI32(0) : minAssetOutBps.value
+  hook.safetyMultiplier = safetyMultiplier.reverted ? BigInt.fromI32(0) : safetyMultiplier.value
+  hook.totalLiquidations = 0
+  hook.totalLPBurned = BigInt.fromI32(0)
+  hook.totalHoneyReceived = BigInt.fromI32(0)
+  hook.totalWbtcKept = BigInt.fromI32(0)
+  hook.totalZaps = 0
+  hook.createdAtTimestamp = block.timestamp
+  hook.createdAtBlock = block.number
+  hook.createdAtTransaction = transaction
+  return hook
+}
+
+// Links the hook's LPLiquidated, emitted just before in the same transaction
+function claimHookLiquidation(position: LPPosition, event: ethereum.Event): string | null {
+  if (position.hook === null) return null
+  let hook = KodiakHook.load(position.hook!.toHexString())
+  if (hook == null || hook.pendingLiquidation == null) return null
+  
+  let pending = HookLiquidation.load(hook.pendingLiquidation!)!
+  hook.pendingLiquidation = null
+  hook.save()
+  return pending.transactionHash.equals(event.transaction.hash) ? pending.id : null
+}
+
+function getOrCreateLiquidityRelease(event: ethereum.Event): LiquidityRelease {
+  let release = LiquidityRelease.load(event.transaction.hash.toHexString())
+  if (release == null) {
+    release = new LiquidityRelease(event.transaction.hash.toHexString())
+    release.requested = BigInt.fromI32(0)
+    release.freedFromLP = BigInt.fromI32(0)
+    release.timestamp = event.block.timestamp
+    release.blockNumber = event.block.number
+    release.transactionHash = event.transaction.hash
+    release.implementation = getCurrentImplementation()
+  }
+  return release
+}
+
+// Event amounts are applied first; hook-held positions then re-read the exact LP balance
+function savePosition(position: LPPosition, timestamp: BigInt): void {
+  if (position.hook !== null) {
+    let balance = KodiakVaultHook.bind(Address.fromBytes(position.hook!)).try_getIslandLPBalance()
+    if (!balance.reverted) {
+      position.lpHeld = balance.value
+    }
+  }
+  if (position.lpHeld.lt(BigInt.fromI32(0))) {
+    position.lpHeld = BigInt.fromI32(0)
+  }
+  let invested = position.capitalDeployed.plus(position.seededValue)
+  position.netCapitalDeployed = invested.gt(position.capitalReturned)
+    ? invested.minus(position.capitalReturned)
+    : BigInt.fromI32(0)
+  position.lastUpdateTimestamp = timestamp
+  position.save()
+}
+
+// Idle capital is the reported vault value not currently sitting in LP positions
+function updateCapitalAllocation(stats: ProtocolStats): void {
+  let invested = stats.totalCapitalDeployed.plus(stats.totalSeededLPValue)
+  stats.deployedCapital = invested.gt(stats.totalCapitalReturned)
+    ? invested.minus(stats.totalCapitalReturned)
+    : BigInt.fromI32(0)
+  stats.idleCapital = stats.vaultValue.gt(stats.deployedCapital)
+    ? stats.vaultValue.minus(stats.deployedCapital)
+    : BigInt.fromI32(0)
+}
+
+function recordSeed(
+  event: ethereum.Event,
+  type: string,
+  token: Bytes,
+  seeder: Bytes,
+  amount: BigInt,
+  price: BigInt,
+  valueAdded: BigInt,
+  sharesMinted: BigInt,
+  position: LPPosition | null
+): Seed {
+  let user = getOrCreateUser(seeder)
+  user.costBasis = user.costBasis.plus(valueAdded)
+  user.save()
+  
+  let seed = new Seed(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  seed.type = type
+  seed.seeder = user.id
+  seed.token = token
+  seed.amount = amount
+  seed.price = price
+  seed.valueAdded = valueAdded
+  seed.sharesMinted = sharesMinted
+  seed.timestamp = event.block.timestamp
+  seed.blockNumber = event.block.number
+  seed.transactionHash = event.transaction.hash
+  seed.implementation = getCurrentImplementation()
+  
+  // Seeder-supplied prices are checked against the last LP price paid on the market
+  if (position !== null) {
+    seed.position = position.id
+    let marketPrice = position.marketLpPrice
+    if (marketPrice !== null && !marketPrice.isZero()) {
+      seed.marketPrice = marketPrice
+      seed.priceDeviationBps = price.minus(marketPrice).times(BigInt.fromI32(10000)).div(marketPrice)
+    }
+  }
+  
+  let mint = findTransactionMint(event, seeder)
+  if (mint != null && mint.seed == null) {
+    seed.transfer = mint.id
+    mint.seed = seed.id
+    mint.save()
+  }
+  seed.save()
+  
+  // Seeding raises vault value directly, without a VaultValueUpdated
+  let stats = getOrCreateProtocolStats()
+  stats.totalSeeds = stats.totalSeeds + 1
+  stats.totalSeededValue = stats.totalSeededValue.plus(valueAdded)
+  stats.totalSeededShares = stats.totalSeededShares.plus(sharesMinted)
+  if (type == "LP") {
+    stats.totalSeededLPValue = stats.totalSeededLPValue.plus(valueAdded)
+  }
+  stats.vaultValue = stats.vaultValue.plus(valueAdded)
+  updateCapitalAllocation(stats)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  updateVaultHourSnapshot(event)
+  updateVaultDaySnapshot(event)
+  return seed
+}
+
+function recordLPDeployment(
+  event: ethereum.Event,
+  position: LPPosition,
+  type: string,
+  recipient: Bytes,
+  token: Bytes | null,
+  amount: BigInt,
+  lpReceived: BigInt | null
+): LPDeployment {
+  let deployment = new LPDeployment(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  deployment.position = position.id
+  deployment.type = type
+  deployment.recipient = recipient
+  deployment.token = token
+  deployment.amount = amount
+  deployment.lpReceived = lpReceived
+  deployment.timestamp = event.block.timestamp
+  deployment.blockNumber = event.block.number
+  deployment.transactionHash = event.transaction.hash
+  deployment.implementation = getCurrentImplementation()
+  deployment.save()
+  
+  if (lpReceived !== null) {
+    position.lpHeld = position.lpHeld.plus(lpReceived)
+    position.lpReceived = position.lpReceived.plus(lpReceived)
+  }
+  position.capitalDeployed = position.capitalDeployed.plus(amount)
+  position.deploymentCount = position.deploymentCount + 1
+  savePosition(position, event.block.timestamp)
+  
+  let stats = getOrCreateProtocolStats()
+  stats.totalCapitalDeployed = stats.totalCapitalDeployed.plus(amount)
+  updateCapitalAllocation(stats)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  return deployment
+}
+
+function recordLPExit(
+  event: ethereum.Event,
+  position: LPPosition,
+  type: string,
+  recipient: Bytes,
+  lpAmount: BigInt,
+  tokenOut: Bytes | null,
+  amountReceived: BigInt | null
+): LPExit {
+  let exit = new LPExit(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  exit.position = position.id
+  exit.type = type
+  exit.recipient = recipient
+  exit.lpAmount = lpAmount
+  exit.tokenOut = tokenOut
+  exit.amountReceived = amountReceived
+  exit.timestamp = event.block.timestamp
+  exit.blockNumber = event.block.number
+  exit.transactionHash = event.transaction.hash
+  exit.implementation = getCurrentImplementation()
+  exit.save()
+  
+  position.lpHeld = position.lpHeld.minus(lpAmount)
+  position.lpExited = position.lpExited.plus(lpAmount)
+  position.exitCount = position.exitCount + 1
+  
+  let stats = getOrCreateProtocolStats()
+  if (amountReceived !== null) {
+    position.capitalReturned = position.capitalReturned.plus(amountReceived)
+    stats.totalCapitalReturned = stats.totalCapitalReturned.plus(amountReceived)
+  }
+  savePosition(position, event.block.timestamp)
+  
+  updateCapitalAllocation(stats)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  return exit
+}
+
 export function handleDeposit(event: DepositEvent): void {
   let deposit = new Deposit(
     event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
@@ -71,9 +1198,12 @@ export function handleDeposit(event: DepositEvent): void {
   deposit.timestamp = event.block.timestamp
   deposit.blockNumber = event.block.number
   deposit.transactionHash = event.transaction.hash
+  deposit.implementation = getCurrentImplementation()
+  deposit.vaultState = getOrCreateVaultState(event).id
   deposit.save()
   
   user.totalDeposited = user.totalDeposited.plus(event.params.assets)
+  user.costBasis = user.costBasis.plus(event.params.assets)
   user.lastActivityTimestamp = event.block.timestamp
   user.save()
   
@@ -81,6 +1211,16 @@ export function handleDeposit(event: DepositEvent): void {
   stats.totalDeposits = stats.totalDeposits.plus(event.params.assets)
   stats.lastUpdateTimestamp = event.block.timestamp
   stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.deposits = hourSnapshot.deposits.plus(event.params.assets)
+  hourSnapshot.netFlow = hourSnapshot.netFlow.plus(event.params.assets)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.deposits = daySnapshot.deposits.plus(event.params.assets)
+  daySnapshot.netFlow = daySnapshot.netFlow.plus(event.params.assets)
+  daySnapshot.save()
 }
 
 export function handleWithdraw(event: WithdrawEvent): void {
@@ -96,8 +1236,42 @@ export function handleWithdraw(event: WithdrawEvent): void {
   withdrawal.timestamp = event.block.timestamp
   withdrawal.blockNumber = event.block.number
   withdrawal.transactionHash = event.transaction.hash
+  withdrawal.implementation = getCurrentImplementation()
+  withdrawal.vaultState = getOrCreateVaultState(event).id
+  
+  let state = getOrCreateCooldownState(user, event.block.timestamp)
+  if (state.pendingPenalty != null) {
+    let penalty = Penalty.load(state.pendingPenalty!)
+    if (penalty != null && penalty.transactionHash.equals(event.transaction.hash)) {
+      // Senior burns the gross balance, so the penalty rate is against shares
+      let gross = event.params.shares
+      penalty.withdrawal = withdrawal.id
+      penalty.effectiveRateBps = gross.isZero()
+        ? BigInt.fromI32(0)
+        : penalty.penalty.times(BigInt.fromI32(10000)).div(gross)
+      penalty.save()
+    }
+    state.pendingPenalty = null
+    state.save()
+  }
+  resetCooldown(user, "WITHDRAWAL", event.block.timestamp)
+  
+  // Senior reports the amount actually paid out, after penalty and fee
+  let proceeds = event.params.assets
+  let costBasis = BigInt.fromI32(0)
+  if (user.pendingBurn != null) {
+    let burn = Transfer.load(user.pendingBurn!)
+    if (burn != null && burn.transactionHash.equals(event.transaction.hash)) {
+      costBasis = burn.costBasis
+    }
+    user.pendingBurn = null
+  }
+  withdrawal.costBasis = costBasis
+  withdrawal.proceeds = proceeds
+  withdrawal.realizedPnL = proceeds.minus(costBasis)
   withdrawal.save()
   
+  user.realizedPnL = user.realizedPnL.plus(withdrawal.realizedPnL)
   user.totalWithdrawn = user.totalWithdrawn.plus(event.params.assets)
   user.lastActivityTimestamp = event.block.timestamp
   user.save()
@@ -106,6 +1280,16 @@ export function handleWithdraw(event: WithdrawEvent): void {
   stats.totalWithdrawals = stats.totalWithdrawals.plus(event.params.assets)
   stats.lastUpdateTimestamp = event.block.timestamp
   stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.withdrawals = hourSnapshot.withdrawals.plus(event.params.assets)
+  hourSnapshot.netFlow = hourSnapshot.netFlow.minus(event.params.assets)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.withdrawals = daySnapshot.withdrawals.plus(event.params.assets)
+  daySnapshot.netFlow = daySnapshot.netFlow.minus(event.params.assets)
+  daySnapshot.save()
 }
 
 export function handleTransfer(event: TransferEvent): void {
@@ -113,13 +1297,54 @@ export function handleTransfer(event: TransferEvent): void {
     event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
   )
   
+  let isMint = event.params.from.equals(Address.zero())
+  let isBurn = event.params.to.equals(Address.zero())
+  let rebaseIndex = getOrCreateProtocolStats().rebaseIndex
+  let shares = sharesFromBalance(event.params.value, rebaseIndex, isBurn)
+  
+  transfer.type = isMint ? "MINT" : isBurn ? "BURN" : "TRANSFER"
   transfer.from = event.params.from
   transfer.to = event.params.to
   transfer.value = event.params.value
+  transfer.shares = shares
   transfer.timestamp = event.block.timestamp
   transfer.blockNumber = event.block.number
   transfer.transactionHash = event.transaction.hash
+  transfer.implementation = getCurrentImplementation()
+  
+  let costBasis = BigInt.fromI32(0)
+  if (!isMint) {
+    let fromUser = getOrCreateUser(event.params.from)
+    costBasis = removeCostBasis(fromUser, shares)
+    if (isBurn) {
+      fromUser.pendingBurn = transfer.id
+    }
+    adjustShareBalance(fromUser, shares.neg(), event.block.timestamp)
+    transfer.fromUser = fromUser.id
+  }
+  
+  if (!isBurn) {
+    let toUser = getOrCreateUser(event.params.to)
+    resetCooldown(toUser, isMint ? "MINT" : "TRANSFER", event.block.timestamp)
+    toUser.costBasis = toUser.costBasis.plus(costBasis)
+    adjustShareBalance(toUser, shares, event.block.timestamp)
+    transfer.toUser = toUser.id
+  }
+  transfer.costBasis = costBasis
+  
   transfer.save()
+  
+  if (isMint || isBurn) {
+    let stats = getOrCreateProtocolStats()
+    stats.totalShares = isMint ? stats.totalShares.plus(shares) : stats.totalShares.minus(shares)
+    if (isMint) {
+      stats.lastMint = transfer.id
+    }
+    stats.save()
+  }
+  
+  updateVaultHourSnapshot(event)
+  updateVaultDaySnapshot(event)
 }
 
 export function handleBackstopTriggered(event: BackstopTriggeredEvent): void {
@@ -134,12 +1359,43 @@ export function handleBackstopTriggered(event: BackstopTriggeredEvent): void {
   backstop.timestamp = event.block.timestamp
   backstop.blockNumber = event.block.number
   backstop.transactionHash = event.transaction.hash
+  backstop.implementation = getCurrentImplementation()
+  
+  let link = getOrCreateEpochTransaction(event.transaction.hash)
+  backstop.epoch = link.epoch
   backstop.save()
   
+  if (link.epoch == null) {
+    let pending = link.pendingBackstops
+    pending.push(backstop.id)
+    link.pendingBackstops = pending
+    link.save()
+  }
+  
+  let backstopAmount = event.params.fromReserve.plus(event.params.fromJunior)
+  
+  let health = getOrCreateHealthState(event.address)
+  health.totalBackstopFromReserve = health.totalBackstopFromReserve.plus(event.params.fromReserve)
+  health.totalBackstopFromJunior = health.totalBackstopFromJunior.plus(event.params.fromJunior)
+  health.lastUpdateTimestamp = event.block.timestamp
+  if (!event.params.fullyRestored) {
+    recordShortfall(event, health, "UNRESTORED_BACKSTOP", null, event.params.deficitAmount, backstopAmount, backstop.id)
+  }
+  health.save()
+  
   let stats = getOrCreateProtocolStats()
   stats.totalBackstops = stats.totalBackstops + 1
+  stats.totalBackstopAmount = stats.totalBackstopAmount.plus(backstopAmount)
   stats.lastUpdateTimestamp = event.block.timestamp
   stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.backstopAmount = hourSnapshot.backstopAmount.plus(backstopAmount)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.backstopAmount = daySnapshot.backstopAmount.plus(backstopAmount)
+  daySnapshot.save()
 }
 
 export function handleProfitSpillover(event: ProfitSpilloverEvent): void {
@@ -153,12 +1409,32 @@ export function handleProfitSpillover(event: ProfitSpilloverEvent): void {
   spillover.timestamp = event.block.timestamp
   spillover.blockNumber = event.block.number
   spillover.transactionHash = event.transaction.hash
+  spillover.implementation = getCurrentImplementation()
+  
+  let link = getOrCreateEpochTransaction(event.transaction.hash)
+  spillover.epoch = link.epoch
   spillover.save()
   
+  if (link.epoch == null) {
+    let pending = link.pendingSpillovers
+    pending.push(spillover.id)
+    link.pendingSpillovers = pending
+    link.save()
+  }
+  
   let stats = getOrCreateProtocolStats()
   stats.totalSpillovers = stats.totalSpillovers + 1
+  stats.totalSpilloverAmount = stats.totalSpilloverAmount.plus(event.params.excessAmount)
   stats.lastUpdateTimestamp = event.block.timestamp
   stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.spilloverAmount = hourSnapshot.spilloverAmount.plus(event.params.excessAmount)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.spilloverAmount = daySnapshot.spilloverAmount.plus(event.params.excessAmount)
+  daySnapshot.save()
 }
 
 export function handleCooldownInitiated(event: CooldownInitiatedEvent): void {
@@ -172,7 +1448,15 @@ export function handleCooldownInitiated(event: CooldownInitiatedEvent): void {
   cooldown.timestamp = event.params.timestamp
   cooldown.blockNumber = event.block.number
   cooldown.transactionHash = event.transaction.hash
+  cooldown.implementation = getCurrentImplementation()
   cooldown.save()
+  
+  let state = getOrCreateCooldownState(user, event.block.timestamp)
+  state.startTime = event.params.timestamp
+  state.maturityTime = event.params.timestamp.plus(COOLDOWN_PERIOD)
+  state.status = "PENDING"
+  state.resetReason = null
+  state.save()
 }
 
 export function handleWithdrawalPenalty(event: WithdrawalPenaltyChargedEvent): void {
@@ -182,12 +1466,22 @@ export function handleWithdrawalPenalty(event: WithdrawalPenaltyChargedEvent): v
   
   let user = getOrCreateUser(event.params.user)
   
+  // Snapshot the cooldown before the withdrawal clears it
+  let state = getOrCreateCooldownState(user, event.block.timestamp)
+  
   penalty.user = user.id
   penalty.penalty = event.params.penalty
+  penalty.cooldownStatus = state.status
+  penalty.cooldownStart = state.startTime
+  penalty.resetReason = state.status == "RESET" ? state.resetReason : null
   penalty.timestamp = event.block.timestamp
   penalty.blockNumber = event.block.number
   penalty.transactionHash = event.transaction.hash
+  penalty.implementation = getCurrentImplementation()
   penalty.save()
+  
+  state.pendingPenalty = penalty.id
+  state.save()
 }
 
 export function handleVaultValueUpdated(event: VaultValueUpdatedEvent): void {
@@ -201,7 +1495,58 @@ export function handleVaultValueUpdated(event: VaultValueUpdatedEvent): void {
   vaultValue.timestamp = event.block.timestamp
   vaultValue.blockNumber = event.block.number
   vaultValue.transactionHash = event.transaction.hash
+  vaultValue.implementation = getCurrentImplementation()
+  vaultValue.vaultState = getOrCreateVaultState(event).id
+  
+  let link = getOrCreateEpochTransaction(event.transaction.hash)
+  vaultValue.epoch = link.epoch
   vaultValue.save()
+  
+  if (link.epoch == null) {
+    let pending = link.pendingVaultValues
+    pending.push(vaultValue.id)
+    link.pendingVaultValues = pending
+    link.save()
+  }
+  
+  let stats = getOrCreateProtocolStats()
+  stats.vaultValue = event.params.newValue
+  updateCapitalAllocation(stats)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  updateVaultHourSnapshot(event)
+  updateVaultDaySnapshot(event)
+}
+
+// A non-rebasing rebase mints user yield plus both fees in one Transfer, so the user's share is
+// measured against the supply before that mint and carried into YieldStats as a synthetic index
+function recordMintedYield(event: FeesCollectedEvent, epoch: Epoch): void {
+  if (epoch.yieldMinted === null) return
+  let yieldStats = getOrCreateYieldStats(event.address)
+  let minted = epoch.yieldMinted!
+  let fees = event.params.managementFee.plus(event.params.performanceFee)
+  let userYield = minted.gt(fees) ? minted.minus(fees) : BigInt.fromI32(0)
+  let baseSupply = epoch.newSupply.minus(minted)
+  
+  if (yieldStats.lastRebaseTimestamp !== null && baseSupply.gt(BigInt.fromI32(0))) {
+    let elapsed = event.block.timestamp.minus(yieldStats.lastRebaseTimestamp!)
+    if (elapsed.gt(BigInt.fromI32(0))) {
+      let realized = userYield
+        .times(BigInt.fromI32(10000))
+        .times(SECONDS_PER_YEAR)
+        .div(baseSupply.times(elapsed))
+      epoch.realizedApyBps = realized
+      epoch.apyDeviationBps = realized.minus(epoch.targetApyBps)
+      epoch.save()
+    }
+  }
+  
+  if (baseSupply.gt(BigInt.fromI32(0))) {
+    yieldStats.yieldIndex = yieldStats.yieldIndex.times(baseSupply.plus(userYield)).div(baseSupply)
+  }
+  yieldStats.lastRebaseTimestamp = event.block.timestamp
+  updateYieldStats(event, yieldStats)
 }
 
 export function handleFeesCollected(event: FeesCollectedEvent): void {
@@ -214,19 +1559,672 @@ export function handleFeesCollected(event: FeesCollectedEvent): void {
   fees.timestamp = event.block.timestamp
   fees.blockNumber = event.block.number
   fees.transactionHash = event.transaction.hash
+  fees.implementation = getCurrentImplementation()
+  
+  let link = getOrCreateEpochTransaction(event.transaction.hash)
+  fees.epoch = link.epoch
   fees.save()
+  
+  if (link.epoch == null) {
+    let pending = link.pendingFeeCollections
+    pending.push(fees.id)
+    link.pendingFeeCollections = pending
+    link.save()
+  } else {
+    recordMintedYield(event, Epoch.load(link.epoch!)!)
+  }
+  
+  let feeId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  if (!event.params.managementFee.isZero()) {
+    recordFee(event, feeId + "-management", "MANAGEMENT_FEE", event.params.managementFee, null)
+  }
+  if (!event.params.performanceFee.isZero()) {
+    recordFee(event, feeId + "-performance", "PERFORMANCE_FEE", event.params.performanceFee, null)
+  }
+  
+  let stats = getOrCreateProtocolStats()
+  stats.totalManagementFees = stats.totalManagementFees.plus(event.params.managementFee)
+  stats.totalPerformanceFees = stats.totalPerformanceFees.plus(event.params.performanceFee)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.managementFees = hourSnapshot.managementFees.plus(event.params.managementFee)
+  hourSnapshot.performanceFees = hourSnapshot.performanceFees.plus(event.params.performanceFee)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.managementFees = daySnapshot.managementFees.plus(event.params.managementFee)
+  daySnapshot.performanceFees = daySnapshot.performanceFees.plus(event.params.performanceFee)
+  daySnapshot.save()
 }
 
 export function handleBGTClaimed(event: BGTClaimedEvent): void {
+  let position = getOrCreateRewardVaultPosition(event.address)
+  position.totalBGTClaimed = position.totalBGTClaimed.plus(event.params.amount)
+  position.lastUpdateTimestamp = event.block.timestamp
+  position.save()
+  
+  let recipient = BGTRecipient.load(event.params.recipient.toHexString())
+  if (recipient == null) {
+    recipient = new BGTRecipient(event.params.recipient.toHexString())
+    recipient.position = position.id
+    recipient.recipient = event.params.recipient
+    recipient.totalClaimed = BigInt.fromI32(0)
+    recipient.claimCount = 0
+  }
+  recipient.totalClaimed = recipient.totalClaimed.plus(event.params.amount)
+  recipient.claimCount = recipient.claimCount + 1
+  recipient.lastClaimTimestamp = event.block.timestamp
+  recipient.save()
+  
   let claim = new BGTClaim(
     event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
   )
   
   claim.recipient = event.params.recipient
   claim.amount = event.params.amount
+  claim.position = position.id
+  claim.recipientTotals = recipient.id
+  claim.stakedAmount = position.stakedAmount
   claim.timestamp = event.block.timestamp
   claim.blockNumber = event.block.number
   claim.transactionHash = event.transaction.hash
+  claim.implementation = getCurrentImplementation()
   claim.save()
+  
+  let dayData = updateRewardVaultDayData(event, position)
+  dayData.bgtClaimed = dayData.bgtClaimed.plus(event.params.amount)
+  saveRewardVaultDayData(dayData)
+}
+
+export function handleRebase(event: RebaseEvent): void {
+  let epoch = getOrCreateEpoch(event.params.epoch, event)
+  
+  epoch.oldIndex = event.params.oldIndex
+  epoch.newIndex = event.params.newIndex
+  epoch.newTotalSupply = event.params.newTotalSupply
+  epoch.vaultState = getOrCreateVaultState(event).id
+  epoch.save()
+  
+  linkEpochTransaction(epoch, event.transaction.hash)
+  
+  let stats = getOrCreateProtocolStats()
+  stats.currentEpoch = event.params.epoch
+  setRebaseIndex(stats, event.params.newIndex, event.block.timestamp)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  // rebase() mints the treasury fee after moving the index but before emitting Rebase,
+  // so handleTransfer priced it at the old index; re-price it at the new one.
+  // It is also the only place senior reveals the treasury address.
+  let feeMint = findTransactionMint(event, null)
+  if (feeMint != null && feeMint.toUser != null) {
+    stats = getOrCreateProtocolStats()
+    stats.treasury = getOrCreateTreasury(feeMint.to).id
+    stats.save()
+    
+    let shares = sharesFromBalance(feeMint.value, event.params.newIndex, false)
+    let treasury = User.load(feeMint.toUser!)!
+    let delta = shares.minus(feeMint.shares)
+    adjustShareBalance(treasury, delta, event.block.timestamp)
+    
+    stats = getOrCreateProtocolStats()
+    stats.totalShares = stats.totalShares.plus(delta)
+    stats.save()
+    
+    feeMint.shares = shares
+    feeMint.save()
+  }
+  
+  updateVaultHourSnapshot(event)
+  updateVaultDaySnapshot(event)
+}
+
+export function handleRebaseExecuted(event: RebaseExecutedEvent): void {
+  let epoch = getOrCreateEpoch(event.params.epoch, event)
+  
+  epoch.apyTier = event.params.apyTier
+  epoch.oldIndex = event.params.oldIndex
+  epoch.newIndex = event.params.newIndex
+  epoch.newSupply = event.params.newSupply
+  epoch.zone = event.params.zone
+  epoch.targetApyBps = apyTierBps(event.params.apyTier)
+  
+  let backingRatio = SeniorVault.bind(event.address).try_backingRatio()
+  if (!backingRatio.reverted) {
+    epoch.backingRatio = backingRatio.value
+  } else if (event.params.newSupply.isZero()) {
+    epoch.backingRatio = PRECISION
+  } else {
+    epoch.backingRatio = getOrCreateProtocolStats().vaultValue.times(PRECISION).div(event.params.newSupply)
+  }
+  
+  // After migrateToNonRebasing() the index is frozen and rebase() mints the epoch's yield to the
+  // admin instead of emitting Rebase; the contract exposes no flag, so the first frozen rebase
+  // without a Rebase in its transaction latches the vault as non-rebasing
+  let yieldStats = getOrCreateYieldStats(event.address)
+  if (
+    !yieldStats.nonRebasing &&
+    event.params.newIndex.equals(event.params.oldIndex) &&
+    getOrCreateEpochTransaction(event.transaction.hash).epoch == null
+  ) {
+    yieldStats.nonRebasing = true
+  }
+  
+  if (yieldStats.nonRebasing) {
+    // Realized APY waits for FeesCollected, which nets the fees out of the minted yield
+    let mint = findTransactionMint(event, null)
+    epoch.yieldMinted = mint == null ? BigInt.fromI32(0) : mint.value
+  } else if (yieldStats.lastRebaseTimestamp !== null && !event.params.oldIndex.isZero()) {
+    // Realized yield for the epoch is the index growth since the previous rebase
+    let elapsed = event.block.timestamp.minus(yieldStats.lastRebaseTimestamp!)
+    if (elapsed.gt(BigInt.fromI32(0))) {
+      let realized = event.params.newIndex.minus(event.params.oldIndex)
+        .times(BigInt.fromI32(10000))
+        .times(SECONDS_PER_YEAR)
+        .div(event.params.oldIndex.times(elapsed))
+      epoch.realizedApyBps = realized
+      epoch.apyDeviationBps = realized.minus(epoch.targetApyBps)
+    }
+  }
+  epoch.vaultState = getOrCreateVaultState(event).id
+  epoch.save()
+  
+  updateHealthState(event, epoch)
+  
+  if (yieldStats.nonRebasing) {
+    yieldStats.save()
+  } else {
+    yieldStats.yieldIndex = event.params.newIndex
+    yieldStats.lastRebaseTimestamp = event.block.timestamp
+    updateYieldStats(event, yieldStats)
+  }
+  
+  linkEpochTransaction(epoch, event.transaction.hash)
+  
+  let stats = getOrCreateProtocolStats()
+  stats.currentEpoch = event.params.epoch
+  setRebaseIndex(stats, event.params.newIndex, event.block.timestamp)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  updateVaultHourSnapshot(event)
+  updateVaultDaySnapshot(event)
+}
+
+export function handleWithdrawalFeeCharged(event: WithdrawalFeeChargedEvent): void {
+  let user = getOrCreateUser(event.params.user)
+  
+  let entry = recordFee(
+    event,
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString(),
+    "WITHDRAWAL_FEE",
+    event.params.fee,
+    user
+  )
+  entry.netAmount = event.params.netAmount
+  entry.save()
+  
+  user.totalFeesPaid = user.totalFeesPaid.plus(event.params.fee)
+  user.save()
+  
+  let stats = getOrCreateProtocolStats()
+  stats.totalWithdrawalFees = stats.totalWithdrawalFees.plus(event.params.fee)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+  
+  let hourSnapshot = updateVaultHourSnapshot(event)
+  hourSnapshot.withdrawalFees = hourSnapshot.withdrawalFees.plus(event.params.fee)
+  hourSnapshot.save()
+  
+  let daySnapshot = updateVaultDaySnapshot(event)
+  daySnapshot.withdrawalFees = daySnapshot.withdrawalFees.plus(event.params.fee)
+  daySnapshot.save()
+}
+
+export function handleAdminSet(event: AdminSetEvent): void {
+  recordRoleAssignment(event, "ADMIN", "SET", event.params.newAdmin, event.params.previousAdmin)
+  
+  let roles = getOrCreateCurrentRoles(event.address)
+  roles.admin = event.params.newAdmin
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handleAdminTransferred(event: AdminTransferredEvent): void {
+  recordRoleAssignment(event, "ADMIN", "TRANSFERRED", event.params.newAdmin, event.params.previousAdmin)
+  
+  let roles = getOrCreateCurrentRoles(event.address)
+  roles.admin = event.params.newAdmin
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handleSeederAdded(event: SeederAddedEvent): void {
+  recordRoleAssignment(event, "SEEDER", "ADDED", event.params.seeder, null)
+  
+  let roles = getOrCreateCurrentRoles(event.address)
+  let seeders = roles.seeders
+  let isSeeder = false
+  for (let i = 0; i < seeders.length; i++) {
+    if (seeders[i].equals(event.params.seeder)) isSeeder = true
+  }
+  if (!isSeeder) seeders.push(event.params.seeder)
+  roles.seeders = seeders
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handleSeederRevoked(event: SeederRevokedEvent): void {
+  recordRoleAssignment(event, "SEEDER", "REVOKED", event.params.seeder, null)
+  
+  let roles = getOrCreateCurrentRoles(event.address)
+  let seeders: Bytes[] = []
+  for (let i = 0; i < roles.seeders.length; i++) {
+    if (!roles.seeders[i].equals(event.params.seeder)) {
+      seeders.push(roles.seeders[i])
+    }
+  }
+  roles.seeders = seeders
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
 }
 
+export function handleLiquidityManagerSet(event: LiquidityManagerSetEvent): void {
+  let roles = getOrCreateCurrentRoles(event.address)
+  recordRoleAssignment(event, "LIQUIDITY_MANAGER", "SET", event.params.liquidityManager, roles.liquidityManager)
+  
+  roles.liquidityManager = event.params.liquidityManager
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handlePriceFeedManagerSet(event: PriceFeedManagerSetEvent): void {
+  let roles = getOrCreateCurrentRoles(event.address)
+  recordRoleAssignment(event, "PRICE_FEED_MANAGER", "SET", event.params.priceFeedManager, roles.priceFeedManager)
+  
+  roles.priceFeedManager = event.params.priceFeedManager
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handleContractUpdaterSet(event: ContractUpdaterSetEvent): void {
+  let roles = getOrCreateCurrentRoles(event.address)
+  recordRoleAssignment(event, "CONTRACT_UPDATER", "SET", event.params.contractUpdater, roles.contractUpdater)
+  
+  roles.contractUpdater = event.params.contractUpdater
+  roles.lastUpdateTimestamp = event.block.timestamp
+  roles.save()
+}
+
+export function handleUpgraded(event: UpgradedEvent): void {
+  let stats = getOrCreateProtocolStats()
+  let previousId = stats.currentImplementation
+  
+  if (previousId != null) {
+    let previous = Implementation.load(previousId!)!
+    previous.isActive = false
+    previous.lastActiveBlock = event.block.number
+    previous.lastActiveTimestamp = event.block.timestamp
+    previous.save()
+  }
+  
+  // Rollbacks re-activate an implementation that was already indexed
+  let implementation = Implementation.load(event.params.implementation.toHexString())
+  if (implementation == null) {
+    implementation = new Implementation(event.params.implementation.toHexString())
+    implementation.vault = event.address
+    implementation.address = event.params.implementation
+    implementation.activations = 0
+    implementation.firstActiveBlock = event.block.number
+    implementation.firstActiveTimestamp = event.block.timestamp
+  }
+  implementation.isActive = true
+  implementation.activations = implementation.activations + 1
+  implementation.lastActiveBlock = null
+  implementation.lastActiveTimestamp = null
+  implementation.save()
+  
+  let upgrade = new Upgrade(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  upgrade.implementation = implementation.id
+  upgrade.previousImplementation = previousId
+  upgrade.timestamp = event.block.timestamp
+  upgrade.blockNumber = event.block.number
+  upgrade.transactionHash = event.transaction.hash
+  upgrade.save()
+  
+  stats.currentImplementation = implementation.id
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+export function handleInitialized(event: InitializedEvent): void {
+  let current = getCurrentImplementation()
+  if (current == null) return
+  
+  let implementation = Implementation.load(current!)!
+  implementation.initializedVersion = event.params.version
+  implementation.save()
+}
+
+export function handleKodiakHookUpdated(event: KodiakHookUpdatedEvent): void {
+  let stats = getOrCreateProtocolStats()
+  if (stats.kodiakHook !== null) {
+    // setKodiakHook drops the old hook from the LP whitelist without emitting WhitelistedLPRemoved
+    let previousEntry = WhitelistEntry.load(whitelistEntryId(event.address, "LP", stats.kodiakHook!))
+    if (previousEntry != null && previousEntry.isWhitelisted && !stats.kodiakHook!.equals(event.params.newHook)) {
+      setWhitelistStatus(event, "LP", stats.kodiakHook!, false)
+      stats = getOrCreateProtocolStats()
+    }
+    
+    let previous = KodiakHook.load(stats.kodiakHook!.toHexString())
+    if (previous != null) {
+      previous.isActive = false
+      previous.lastUpdateTimestamp = event.block.timestamp
+      previous.save()
+    }
+  }
+  
+  let newHook = event.params.newHook
+  if (!newHook.equals(Address.zero())) {
+    // A hook is only templated once; pointing back at it just re-activates it
+    let hook = KodiakHook.load(newHook.toHexString())
+    if (hook == null) {
+      hook = createKodiakHook(event.address, newHook, event.block, event.transaction.hash)
+      KodiakVaultHookTemplate.create(newHook)
+    }
+    hook.isActive = true
+    hook.lastUpdateTimestamp = event.block.timestamp
+    hook.save()
+  }
+  
+  stats.kodiakHook = newHook
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+// A hook set before startBlock announced itself in a KodiakHookUpdated that is never indexed,
+// so the vault's current hook is read and templated once, at the start block
+export function handleStartBlock(block: ethereum.Block): void {
+  let vault = dataSource.address()
+  let current = SeniorVault.bind(vault).try_kodiakHook()
+  if (current.reverted || current.value.equals(Address.zero())) return
+  
+  let hook = createKodiakHook(vault, current.value, block, null)
+  hook.lastUpdateTimestamp = block.timestamp
+  hook.save()
+  KodiakVaultHookTemplate.create(current.value)
+  
+  let stats = getOrCreateProtocolStats()
+  stats.kodiakHook = current.value
+  stats.lastUpdateTimestamp = block.timestamp
+  stats.save()
+}
+
+export function handleKodiakDeployment(event: KodiakDeploymentEvent): void {
+  let position = getKodiakLPPosition(event)
+  // Deployments swap stablecoin into LP at market, giving an observed LP price
+  if (!event.params.lpReceived.isZero()) {
+    position.marketLpPrice = event.params.amount.times(PRECISION).div(event.params.lpReceived)
+    position.marketLpPriceTimestamp = event.block.timestamp
+  }
+  
+  recordLPDeployment(
+    event,
+    position,
+    "KODIAK_DEPLOYMENT",
+    position.hook!,
+    null,
+    event.params.amount,
+    event.params.lpReceived
+  )
+}
+
+export function handleLPInvestment(event: LPInvestmentEvent): void {
+  // Funds sent straight to the Kodiak hook belong to its island position
+  let position: LPPosition
+  if (event.params.lp.equals(getKodiakHook(event.address))) {
+    position = getKodiakLPPosition(event)
+  } else {
+    position = getOrCreateLPPosition(event.address, event.params.lp)
+  }
+  
+  let deployment = recordLPDeployment(
+    event,
+    position,
+    "LP_INVESTMENT",
+    event.params.lp,
+    null,
+    event.params.amount,
+    null
+  )
+  deployment.whitelistEntry = whitelistEntryId(event.address, "LP", event.params.lp)
+  deployment.save()
+}
+
+export function handleLPTokensWithdrawn(event: LPTokensWithdrawnEvent): void {
+  let position = getOrCreateLPPosition(event.address, event.params.lpToken)
+  let exit = recordLPExit(
+    event,
+    position,
+    "LP_TOKENS_WITHDRAWN",
+    event.params.lp,
+    event.params.amount,
+    null,
+    null
+  )
+  exit.whitelistEntry = whitelistEntryId(event.address, "LP", event.params.lp)
+  exit.lpTokenWhitelistEntry = whitelistEntryId(event.address, "LP_TOKEN", event.params.lpToken)
+  exit.save()
+}
+
+export function handleLPLiquidationExecuted(event: LPLiquidationExecutedEvent): void {
+  let position = getKodiakLPPosition(event)
+  let release = getOrCreateLiquidityRelease(event)
+  release.freedFromLP = release.freedFromLP.plus(event.params.received)
+  release.save()
+  
+  let liquidation = new LPLiquidation(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  // minExpected of zero means the vault could not price the LP and skipped the check
+  let slippage = event.params.requested.minus(event.params.received)
+  liquidation.position = position.id
+  liquidation.release = release.id
+  liquidation.hookLiquidation = claimHookLiquidation(position, event)
+  liquidation.requested = event.params.requested
+  liquidation.received = event.params.received
+  liquidation.minExpected = event.params.minExpected
+  liquidation.realizedSlippage = slippage
+  liquidation.realizedSlippageBps = event.params.requested.isZero()
+    ? BigInt.fromI32(0)
+    : slippage.times(BigInt.fromI32(10000)).div(event.params.requested)
+  liquidation.minExpectedHeadroom = event.params.received.minus(event.params.minExpected)
+  liquidation.timestamp = event.block.timestamp
+  liquidation.blockNumber = event.block.number
+  liquidation.transactionHash = event.transaction.hash
+  liquidation.implementation = getCurrentImplementation()
+  liquidation.save()
+  
+  position.capitalReturned = position.capitalReturned.plus(event.params.received)
+  position.liquidationCount = position.liquidationCount + 1
+  if (liquidation.hookLiquidation !== null) {
+    let hookLiquidation = HookLiquidation.load(liquidation.hookLiquidation!)!
+    hookLiquidation.vaultLiquidation = liquidation.id
+    hookLiquidation.save()
+    position.lpExited = position.lpExited.plus(hookLiquidation.lpBurned)
+  }
+  savePosition(position, event.block.timestamp)
+  
+  let stats = getOrCreateProtocolStats()
+  stats.totalCapitalReturned = stats.totalCapitalReturned.plus(event.params.received)
+  updateCapitalAllocation(stats)
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+// Emitted after the liquidations it summarises, which already created the release
+export function handleLiquidityFreedForWithdrawal(event: LiquidityFreedForWithdrawalEvent): void {
+  let release = getOrCreateLiquidityRelease(event)
+  release.requested = release.requested.plus(event.params.requested)
+  release.save()
+}
+
+export function handleWhitelistedLPAdded(event: WhitelistedLPAddedEvent): void {
+  setWhitelistStatus(event, "LP", event.params.lp, true)
+}
+
+export function handleWhitelistedLPRemoved(event: WhitelistedLPRemovedEvent): void {
+  setWhitelistStatus(event, "LP", event.params.lp, false)
+}
+
+export function handleWhitelistedLPTokenAdded(event: WhitelistedLPTokenAddedEvent): void {
+  setWhitelistStatus(event, "LP_TOKEN", event.params.lpToken, true)
+}
+
+export function handleWhitelistedLPTokenRemoved(event: WhitelistedLPTokenRemovedEvent): void {
+  setWhitelistStatus(event, "LP_TOKEN", event.params.lpToken, false)
+}
+
+export function handleVaultSeeded(event: VaultSeededEvent): void {
+  let position = getOrCreateLPPosition(event.address, event.params.lpToken)
+  position.hook = getKodiakHook(event.address)
+  recordSeed(
+    event,
+    "LP",
+    event.params.lpToken,
+    event.params.seedProvider,
+    event.params.amount,
+    event.params.lpPrice,
+    event.params.valueAdded,
+    event.params.sharesMinted,
+    position
+  )
+  
+  // Seeded LP is sent straight to the hook and counts as deployed capital
+  position.lpHeld = position.lpHeld.plus(event.params.amount)
+  position.lpReceived = position.lpReceived.plus(event.params.amount)
+  position.seededValue = position.seededValue.plus(event.params.valueAdded)
+  savePosition(position, event.block.timestamp)
+}
+
+export function handleRewardVaultSet(event: RewardVaultSetEvent): void {
+  let position = getOrCreateRewardVaultPosition(event.address)
+  position.rewardVault = event.params.newVault
+  position.lastUpdateTimestamp = event.block.timestamp
+  position.save()
+  
+  let change = new RewardVaultChange(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  change.position = position.id
+  change.oldVault = event.params.oldVault
+  change.newVault = event.params.newVault
+  change.timestamp = event.block.timestamp
+  change.blockNumber = event.block.number
+  change.transactionHash = event.transaction.hash
+  change.implementation = getCurrentImplementation()
+  change.save()
+}
+
+export function handleStakedIntoRewardVault(event: StakedIntoRewardVaultEvent): void {
+  recordRewardVaultStake(event, "STAKE", event.params.amount)
+}
+
+export function handleWithdrawnFromRewardVault(event: WithdrawnFromRewardVaultEvent): void {
+  recordRewardVaultStake(event, "WITHDRAW", event.params.amount)
+}
+
+export function handleBackstopShortfall(event: BackstopShortfallEvent): void {
+  let health = getOrCreateHealthState(event.address)
+  let shortfall = recordShortfall(
+    event,
+    health,
+    "SOURCE_SHORTFALL",
+    event.params.vault,
+    event.params.requested,
+    event.params.received,
+    null
+  )
+  health.save()
+  
+  let incident = recordIncident(event, "BACKSTOP_SHORTFALL", "CRITICAL")
+  incident.account = event.params.vault
+  incident.amount = shortfall.shortfall
+  incident.shortfall = shortfall.id
+  incident.save()
+  
+  let stats = getOrCreateProtocolStats()
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+export function handlePaused(event: PausedEvent): void {
+  let incident = recordIncident(event, "PAUSED", "HIGH")
+  incident.account = event.params.account
+  
+  let outage = new Outage(incident.id)
+  outage.vault = event.address
+  outage.active = true
+  outage.pausedBy = event.params.account
+  outage.startIncident = incident.id
+  outage.startTimestamp = event.block.timestamp
+  outage.startBlockNumber = event.block.number
+  outage.save()
+  
+  incident.outage = outage.id
+  incident.save()
+  
+  let stats = getOrCreateProtocolStats()
+  stats.paused = true
+  stats.currentOutage = outage.id
+  stats.totalOutages = stats.totalOutages + 1
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+export function handleUnpaused(event: UnpausedEvent): void {
+  let incident = recordIncident(event, "UNPAUSED", "LOW")
+  incident.account = event.params.account
+  
+  let stats = getOrCreateProtocolStats()
+  if (stats.currentOutage != null) {
+    let outage = Outage.load(stats.currentOutage!)
+    if (outage != null) {
+      outage.active = false
+      outage.unpausedBy = event.params.account
+      outage.endIncident = incident.id
+      outage.endTimestamp = event.block.timestamp
+      outage.endBlockNumber = event.block.number
+      outage.duration = event.block.timestamp.minus(outage.startTimestamp)
+      outage.save()
+      incident.outage = outage.id
+    }
+  }
+  incident.save()
+  
+  stats.paused = false
+  stats.currentOutage = null
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
+
+// Only callable while paused, so it is attributed to the open outage
+export function handleEmergencyWithdraw(event: EmergencyWithdrawEvent): void {
+  let incident = recordIncident(event, "EMERGENCY_WITHDRAW", "CRITICAL")
+  incident.account = event.params.to
+  incident.amount = event.params.amount
+  
+  let stats = getOrCreateProtocolStats()
+  incident.outage = stats.currentOutage
+  incident.save()
+  
+  stats.lastUpdateTimestamp = event.block.timestamp
+  stats.save()
+}
@@ -0,0 +1,852 @@
+import { createMockedFunction, newMockEvent } from "matchstick-as"
+import { ethereum, Address, BigInt } from "@graphprotocol/graph-ts"
+import {
+  Deposit,
+  Withdraw,
+  Transfer,
+  BackstopTriggered,
+  ProfitSpillover,
+  CooldownInitiated,
+  WithdrawalPenaltyCharged,
+  VaultValueUpdated,
+  FeesCollected,
+  BGTClaimed,
+  Rebase,
+  RebaseExecuted,
+  WithdrawalFeeCharged,
+  AdminSet,
+  AdminTransferred,
+  SeederAdded,
+  SeederRevoked,
+  LiquidityManagerSet,
+  PriceFeedManagerSet,
+  ContractUpdaterSet,
+  Upgraded,
+  Initialized,
+  KodiakHookUpdated,
+  KodiakDeployment,
+  LPInvestment,
+  LPTokensWithdrawn,
+  LPLiquidationExecuted,
+  LiquidityFreedForWithdrawal,
+  WhitelistedLPAdded,
+  WhitelistedLPRemoved,
+  WhitelistedLPTokenAdded,
+  WhitelistedLPTokenRemoved,
+  VaultSeeded,
+  RewardVaultSet,
+  StakedIntoRewardVault,
+  WithdrawnFromRewardVault,
+  BackstopShortfall,
+  Paused,
+  Unpaused,
+  EmergencyWithdraw
+} from "../generated/SeniorVault/SeniorVault"
+
+export function createDepositEvent(
+  user: Address,
+  assets: BigInt,
+  shares: BigInt
+): Deposit {
+  let depositEvent = changetype<Deposit>(newMockEvent())
+  
+  depositEvent.parameters = new Array()
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  depositEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return depositEvent
+}
+
+export function createWithdrawEvent(
+  user: Address,
+  assets: BigInt,
+  shares: BigInt
+): Withdraw {
+  let withdrawEvent = changetype<Withdraw>(newMockEvent())
+  
+  withdrawEvent.parameters = new Array()
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("assets", ethereum.Value.fromUnsignedBigInt(assets))
+  )
+  
+  withdrawEvent.parameters.push(
+    new ethereum.EventParam("shares", ethereum.Value.fromUnsignedBigInt(shares))
+  )
+  
+  return withdrawEvent
+}
+
+export function createTransferEvent(
+  from: Address,
+  to: Address,
+  value: BigInt
+): Transfer {
+  let transferEvent = changetype<Transfer>(newMockEvent())
+  
+  transferEvent.parameters = new Array()
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("from", ethereum.Value.fromAddress(from))
+  )
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("to", ethereum.Value.fromAddress(to))
+  )
+  
+  transferEvent.parameters.push(
+    new ethereum.EventParam("value", ethereum.Value.fromUnsignedBigInt(value))
+  )
+  
+  return transferEvent
+}
+
+export function createBackstopTriggeredEvent(
+  deficitAmount: BigInt,
+  fromReserve: BigInt,
+  fromJunior: BigInt,
+  fullyRestored: boolean
+): BackstopTriggered {
+  let backstopTriggeredEvent = changetype<BackstopTriggered>(newMockEvent())
+  
+  backstopTriggeredEvent.parameters = new Array()
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("deficitAmount", ethereum.Value.fromUnsignedBigInt(deficitAmount))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fromReserve", ethereum.Value.fromUnsignedBigInt(fromReserve))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fromJunior", ethereum.Value.fromUnsignedBigInt(fromJunior))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fullyRestored", ethereum.Value.fromBoolean(fullyRestored))
+  )
+  
+  return backstopTriggeredEvent
+}
+
+export function createProfitSpilloverEvent(
+  excessAmount: BigInt,
+  toJunior: BigInt,
+  toReserve: BigInt
+): ProfitSpillover {
+  let profitSpilloverEvent = changetype<ProfitSpillover>(newMockEvent())
+  
+  profitSpilloverEvent.parameters = new Array()
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("excessAmount", ethereum.Value.fromUnsignedBigInt(excessAmount))
+  )
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("toJunior", ethereum.Value.fromUnsignedBigInt(toJunior))
+  )
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("toReserve", ethereum.Value.fromUnsignedBigInt(toReserve))
+  )
+  
+  return profitSpilloverEvent
+}
+
+export function createCooldownInitiatedEvent(
+  user: Address,
+  timestamp: BigInt
+): CooldownInitiated {
+  let cooldownInitiatedEvent = changetype<CooldownInitiated>(newMockEvent())
+  
+  cooldownInitiatedEvent.parameters = new Array()
+  
+  cooldownInitiatedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  cooldownInitiatedEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return cooldownInitiatedEvent
+}
+
+export function createWithdrawalPenaltyChargedEvent(
+  user: Address,
+  penalty: BigInt
+): WithdrawalPenaltyCharged {
+  let withdrawalPenaltyChargedEvent = changetype<WithdrawalPenaltyCharged>(newMockEvent())
+  
+  withdrawalPenaltyChargedEvent.parameters = new Array()
+  
+  withdrawalPenaltyChargedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawalPenaltyChargedEvent.parameters.push(
+    new ethereum.EventParam("penalty", ethereum.Value.fromUnsignedBigInt(penalty))
+  )
+  
+  return withdrawalPenaltyChargedEvent
+}
+
+export function createVaultValueUpdatedEvent(
+  oldValue: BigInt,
+  newValue: BigInt,
+  profitBps: BigInt
+): VaultValueUpdated {
+  let vaultValueUpdatedEvent = changetype<VaultValueUpdated>(newMockEvent())
+  
+  vaultValueUpdatedEvent.parameters = new Array()
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("oldValue", ethereum.Value.fromUnsignedBigInt(oldValue))
+  )
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("newValue", ethereum.Value.fromUnsignedBigInt(newValue))
+  )
+  
+  vaultValueUpdatedEvent.parameters.push(
+    new ethereum.EventParam("profitBps", ethereum.Value.fromSignedBigInt(profitBps))
+  )
+  
+  return vaultValueUpdatedEvent
+}
+
+export function createFeesCollectedEvent(
+  managementFee: BigInt,
+  performanceFee: BigInt
+): FeesCollected {
+  let feesCollectedEvent = changetype<FeesCollected>(newMockEvent())
+  
+  feesCollectedEvent.parameters = new Array()
+  
+  feesCollectedEvent.parameters.push(
+    new ethereum.EventParam("managementFee", ethereum.Value.fromUnsignedBigInt(managementFee))
+  )
+  
+  feesCollectedEvent.parameters.push(
+    new ethereum.EventParam("performanceFee", ethereum.Value.fromUnsignedBigInt(performanceFee))
+  )
+  
+  return feesCollectedEvent
+}
+
+export function createBGTClaimedEvent(
+  recipient: Address,
+  amount: BigInt
+): BGTClaimed {
+  let bGTClaimedEvent = changetype<BGTClaimed>(newMockEvent())
+  
+  bGTClaimedEvent.parameters = new Array()
+  
+  bGTClaimedEvent.parameters.push(
+    new ethereum.EventParam("recipient", ethereum.Value.fromAddress(recipient))
+  )
+  
+  bGTClaimedEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return bGTClaimedEvent
+}
+
+export function createRebaseEvent(
+  epoch: BigInt,
+  oldIndex: BigInt,
+  newIndex: BigInt,
+  newTotalSupply: BigInt
+): Rebase {
+  let rebaseEvent = changetype<Rebase>(newMockEvent())
+  
+  rebaseEvent.parameters = new Array()
+  
+  rebaseEvent.parameters.push(
+    new ethereum.EventParam("epoch", ethereum.Value.fromUnsignedBigInt(epoch))
+  )
+  
+  rebaseEvent.parameters.push(
+    new ethereum.EventParam("oldIndex", ethereum.Value.fromUnsignedBigInt(oldIndex))
+  )
+  
+  rebaseEvent.parameters.push(
+    new ethereum.EventParam("newIndex", ethereum.Value.fromUnsignedBigInt(newIndex))
+  )
+  
+  rebaseEvent.parameters.push(
+    new ethereum.EventParam("newTotalSupply", ethereum.Value.fromUnsignedBigInt(newTotalSupply))
+  )
+  
+  return rebaseEvent
+}
+
+export function createRebaseExecutedEvent(
+  epoch: BigInt,
+  apyTier: i32,
+  oldIndex: BigInt,
+  newIndex: BigInt,
+  newSupply: BigInt,
+  zone: i32
+): RebaseExecuted {
+  let rebaseExecutedEvent = changetype<RebaseExecuted>(newMockEvent())
+  
+  rebaseExecutedEvent.parameters = new Array()
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("epoch", ethereum.Value.fromUnsignedBigInt(epoch))
+  )
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("apyTier", ethereum.Value.fromI32(apyTier))
+  )
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("oldIndex", ethereum.Value.fromUnsignedBigInt(oldIndex))
+  )
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("newIndex", ethereum.Value.fromUnsignedBigInt(newIndex))
+  )
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("newSupply", ethereum.Value.fromUnsignedBigInt(newSupply))
+  )
+  
+  rebaseExecutedEvent.parameters.push(
+    new ethereum.EventParam("zone", ethereum.Value.fromI32(zone))
+  )
+  
+  return rebaseExecutedEvent
+}
+
+export function createWithdrawalFeeChargedEvent(
+  user: Address,
+  fee: BigInt,
+  netAmount: BigInt
+): WithdrawalFeeCharged {
+  let withdrawalFeeChargedEvent = changetype<WithdrawalFeeCharged>(newMockEvent())
+  
+  withdrawalFeeChargedEvent.parameters = new Array()
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("user", ethereum.Value.fromAddress(user))
+  )
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("fee", ethereum.Value.fromUnsignedBigInt(fee))
+  )
+  
+  withdrawalFeeChargedEvent.parameters.push(
+    new ethereum.EventParam("netAmount", ethereum.Value.fromUnsignedBigInt(netAmount))
+  )
+  
+  return withdrawalFeeChargedEvent
+}
+
+export function createAdminSetEvent(
+  previousAdmin: Address,
+  newAdmin: Address
+): AdminSet {
+  let adminSetEvent = changetype<AdminSet>(newMockEvent())
+  
+  adminSetEvent.parameters = new Array()
+  
+  adminSetEvent.parameters.push(
+    new ethereum.EventParam("previousAdmin", ethereum.Value.fromAddress(previousAdmin))
+  )
+  
+  adminSetEvent.parameters.push(
+    new ethereum.EventParam("newAdmin", ethereum.Value.fromAddress(newAdmin))
+  )
+  
+  return adminSetEvent
+}
+
+export function createAdminTransferredEvent(
+  previousAdmin: Address,
+  newAdmin: Address
+): AdminTransferred {
+  let adminTransferredEvent = changetype<AdminTransferred>(newMockEvent())
+  
+  adminTransferredEvent.parameters = new Array()
+  
+  adminTransferredEvent.parameters.push(
+    new ethereum.EventParam("previousAdmin", ethereum.Value.fromAddress(previousAdmin))
+  )
+  
+  adminTransferredEvent.parameters.push(
+    new ethereum.EventParam("newAdmin", ethereum.Value.fromAddress(newAdmin))
+  )
+  
+  return adminTransferredEvent
+}
+
+export function createSeederAddedEvent(
+  seeder: Address
+): SeederAdded {
+  let seederAddedEvent = changetype<SeederAdded>(newMockEvent())
+  
+  seederAddedEvent.parameters = new Array()
+  
+  seederAddedEvent.parameters.push(
+    new ethereum.EventParam("seeder", ethereum.Value.fromAddress(seeder))
+  )
+  
+  return seederAddedEvent
+}
+
+export function createSeederRevokedEvent(
+  seeder: Address
+): SeederRevoked {
+  let seederRevokedEvent = changetype<SeederRevoked>(newMockEvent())
+  
+  seederRevokedEvent.parameters = new Array()
+  
+  seederRevokedEvent.parameters.push(
+    new ethereum.EventParam("seeder", ethereum.Value.fromAddress(seeder))
+  )
+  
+  return seederRevokedEvent
+}
+
+export function createLiquidityManagerSetEvent(
+  liquidityManager: Address
+): LiquidityManagerSet {
+  let liquidityManagerSetEvent = changetype<LiquidityManagerSet>(newMockEvent())
+  
+  liquidityManagerSetEvent.parameters = new Array()
+  
+  liquidityManagerSetEvent.parameters.push(
+    new ethereum.EventParam("liquidityManager", ethereum.Value.fromAddress(liquidityManager))
+  )
+  
+  return liquidityManagerSetEvent
+}
+
+export function createPriceFeedManagerSetEvent(
+  priceFeedManager: Address
+): PriceFeedManagerSet {
+  let priceFeedManagerSetEvent = changetype<PriceFeedManagerSet>(newMockEvent())
+  
+  priceFeedManagerSetEvent.parameters = new Array()
+  
+  priceFeedManagerSetEvent.parameters.push(
+    new ethereum.EventParam("priceFeedManager", ethereum.Value.fromAddress(priceFeedManager))
+  )
+  
+  return priceFeedManagerSetEvent
+}
+
+export function createContractUpdaterSetEvent(
+  contractUpdater: Address
+): ContractUpdaterSet {
+  let contractUpdaterSetEvent = changetype<ContractUpdaterSet>(newMockEvent())
+  
+  contractUpdaterSetEvent.parameters = new Array()
+  
+  contractUpdaterSetEvent.parameters.push(
+    new ethereum.EventParam("contractUpdater", ethereum.Value.fromAddress(contractUpdater))
+  )
+  
+  return contractUpdaterSetEvent
+}
+
+export function createUpgradedEvent(
+  implementation: Address
+): Upgraded {
+  let upgradedEvent = changetype<Upgraded>(newMockEvent())
+  
+  upgradedEvent.parameters = new Array()
+  
+  upgradedEvent.parameters.push(
+    new ethereum.EventParam("implementation", ethereum.Value.fromAddress(implementation))
+  )
+  
+  return upgradedEvent
+}
+
+export function createInitializedEvent(
+  version: BigInt
+): Initialized {
+  let initializedEvent = changetype<Initialized>(newMockEvent())
+  
+  initializedEvent.parameters = new Array()
+  
+  initializedEvent.parameters.push(
+    new ethereum.EventParam("version", ethereum.Value.fromUnsignedBigInt(version))
+  )
+  
+  return initializedEvent
+}
+
+export function createKodiakHookUpdatedEvent(
+  newHook: Address
+): KodiakHookUpdated {
+  let kodiakHookUpdatedEvent = changetype<KodiakHookUpdated>(newMockEvent())
+  
+  kodiakHookUpdatedEvent.parameters = new Array()
+  
+  kodiakHookUpdatedEvent.parameters.push(
+    new ethereum.EventParam("newHook", ethereum.Value.fromAddress(newHook))
+  )
+  
+  return kodiakHookUpdatedEvent
+}
+
+export function createKodiakDeploymentEvent(
+  amount: BigInt,
+  lpReceived: BigInt,
+  timestamp: BigInt
+): KodiakDeployment {
+  let kodiakDeploymentEvent = changetype<KodiakDeployment>(newMockEvent())
+  
+  kodiakDeploymentEvent.parameters = new Array()
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("lpReceived", ethereum.Value.fromUnsignedBigInt(lpReceived))
+  )
+  
+  kodiakDeploymentEvent.parameters.push(
+    new ethereum.EventParam("timestamp", ethereum.Value.fromUnsignedBigInt(timestamp))
+  )
+  
+  return kodiakDeploymentEvent
+}
+
+export function createLPInvestmentEvent(
+  lp: Address,
+  amount: BigInt
+): LPInvestment {
+  let lPInvestmentEvent = changetype<LPInvestment>(newMockEvent())
+  
+  lPInvestmentEvent.parameters = new Array()
+  
+  lPInvestmentEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  lPInvestmentEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return lPInvestmentEvent
+}
+
+export function createLPTokensWithdrawnEvent(
+  lpToken: Address,
+  lp: Address,
+  amount: BigInt
+): LPTokensWithdrawn {
+  let lPTokensWithdrawnEvent = changetype<LPTokensWithdrawn>(newMockEvent())
+  
+  lPTokensWithdrawnEvent.parameters = new Array()
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  lPTokensWithdrawnEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return lPTokensWithdrawnEvent
+}
+
+export function createLPLiquidationExecutedEvent(
+  requested: BigInt,
+  received: BigInt,
+  minExpected: BigInt
+): LPLiquidationExecuted {
+  let lPLiquidationExecutedEvent = changetype<LPLiquidationExecuted>(newMockEvent())
+  
+  lPLiquidationExecutedEvent.parameters = new Array()
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("received", ethereum.Value.fromUnsignedBigInt(received))
+  )
+  
+  lPLiquidationExecutedEvent.parameters.push(
+    new ethereum.EventParam("minExpected", ethereum.Value.fromUnsignedBigInt(minExpected))
+  )
+  
+  return lPLiquidationExecutedEvent
+}
+
+export function createLiquidityFreedForWithdrawalEvent(
+  requested: BigInt,
+  freedFromLP: BigInt
+): LiquidityFreedForWithdrawal {
+  let liquidityFreedForWithdrawalEvent = changetype<LiquidityFreedForWithdrawal>(newMockEvent())
+  
+  liquidityFreedForWithdrawalEvent.parameters = new Array()
+  
+  liquidityFreedForWithdrawalEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  liquidityFreedForWithdrawalEvent.parameters.push(
+    new ethereum.EventParam("freedFromLP", ethereum.Value.fromUnsignedBigInt(freedFromLP))
+  )
+  
+  return liquidityFreedForWithdrawalEvent
+}
+
+export function createWhitelistedLPAddedEvent(
+  lp: Address
+): WhitelistedLPAdded {
+  let whitelistedLPAddedEvent = changetype<WhitelistedLPAdded>(newMockEvent())
+  
+  whitelistedLPAddedEvent.parameters = new Array()
+  
+  whitelistedLPAddedEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  return whitelistedLPAddedEvent
+}
+
+export function createWhitelistedLPRemovedEvent(
+  lp: Address
+): WhitelistedLPRemoved {
+  let whitelistedLPRemovedEvent = changetype<WhitelistedLPRemoved>(newMockEvent())
+  
+  whitelistedLPRemovedEvent.parameters = new Array()
+  
+  whitelistedLPRemovedEvent.parameters.push(
+    new ethereum.EventParam("lp", ethereum.Value.fromAddress(lp))
+  )
+  
+  return whitelistedLPRemovedEvent
+}
+
+export function createWhitelistedLPTokenAddedEvent(
+  lpToken: Address
+): WhitelistedLPTokenAdded {
+  let whitelistedLPTokenAddedEvent = changetype<WhitelistedLPTokenAdded>(newMockEvent())
+  
+  whitelistedLPTokenAddedEvent.parameters = new Array()
+  
+  whitelistedLPTokenAddedEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  return whitelistedLPTokenAddedEvent
+}
+
+export function createWhitelistedLPTokenRemovedEvent(
+  lpToken: Address
+): WhitelistedLPTokenRemoved {
+  let whitelistedLPTokenRemovedEvent = changetype<WhitelistedLPTokenRemoved>(newMockEvent())
+  
+  whitelistedLPTokenRemovedEvent.parameters = new Array()
+  
+  whitelistedLPTokenRemovedEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  return whitelistedLPTokenRemovedEvent
+}
+
+export function createVaultSeededEvent(
+  lpToken: Address,
+  seedProvider: Address,
+  amount: BigInt,
+  lpPrice: BigInt,
+  valueAdded: BigInt,
+  sharesMinted: BigInt
+): VaultSeeded {
+  let vaultSeededEvent = changetype<VaultSeeded>(newMockEvent())
+  
+  vaultSeededEvent.parameters = new Array()
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("lpToken", ethereum.Value.fromAddress(lpToken))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("seedProvider", ethereum.Value.fromAddress(seedProvider))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("lpPrice", ethereum.Value.fromUnsignedBigInt(lpPrice))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("valueAdded", ethereum.Value.fromUnsignedBigInt(valueAdded))
+  )
+  
+  vaultSeededEvent.parameters.push(
+    new ethereum.EventParam("sharesMinted", ethereum.Value.fromUnsignedBigInt(sharesMinted))
+  )
+  
+  return vaultSeededEvent
+}
+
+export function createRewardVaultSetEvent(
+  oldVault: Address,
+  newVault: Address
+): RewardVaultSet {
+  let rewardVaultSetEvent = changetype<RewardVaultSet>(newMockEvent())
+  
+  rewardVaultSetEvent.parameters = new Array()
+  
+  rewardVaultSetEvent.parameters.push(
+    new ethereum.EventParam("oldVault", ethereum.Value.fromAddress(oldVault))
+  )
+  
+  rewardVaultSetEvent.parameters.push(
+    new ethereum.EventParam("newVault", ethereum.Value.fromAddress(newVault))
+  )
+  
+  return rewardVaultSetEvent
+}
+
+export function createStakedIntoRewardVaultEvent(
+  amount: BigInt
+): StakedIntoRewardVault {
+  let stakedIntoRewardVaultEvent = changetype<StakedIntoRewardVault>(newMockEvent())
+  
+  stakedIntoRewardVaultEvent.parameters = new Array()
+  
+  stakedIntoRewardVaultEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return stakedIntoRewardVaultEvent
+}
+
+export function createWithdrawnFromRewardVaultEvent(
+  amount: BigInt
+): WithdrawnFromRewardVault {
+  let withdrawnFromRewardVaultEvent = changetype<WithdrawnFromRewardVault>(newMockEvent())
+  
+  withdrawnFromRewardVaultEvent.parameters = new Array()
+  
+  withdrawnFromRewardVaultEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return withdrawnFromRewardVaultEvent
+}
+
+export function createBackstopShortfallEvent(
+  vault: Address,
+  requested: BigInt,
+  received: BigInt
+): BackstopShortfall {
+  let backstopShortfallEvent = changetype<BackstopShortfall>(newMockEvent())
+  
+  backstopShortfallEvent.parameters = new Array()
+  
+  backstopShortfallEvent.parameters.push(
+    new ethereum.EventParam("vault", ethereum.Value.fromAddress(vault))
+  )
+  
+  backstopShortfallEvent.parameters.push(
+    new ethereum.EventParam("requested", ethereum.Value.fromUnsignedBigInt(requested))
+  )
+  
+  backstopShortfallEvent.parameters.push(
+    new ethereum.EventParam("received", ethereum.Value.fromUnsignedBigInt(received))
+  )
+  
+  return backstopShortfallEvent
+}
+
+export function createPausedEvent(
+  account: Address
+): Paused {
+  let pausedEvent = changetype<Paused>(newMockEvent())
+  
+  pausedEvent.parameters = new Array()
+  
+  pausedEvent.parameters.push(
+    new ethereum.EventParam("account", ethereum.Value.fromAddress(account))
+  )
+  
+  return pausedEvent
+}
+
+export function createUnpausedEvent(
+  account: Address
+): Unpaused {
+  let unpausedEvent = changetype<Unpaused>(newMockEvent())
+  
+  unpausedEvent.parameters = new Array()
+  
+  unpausedEvent.parameters.push(
+    new ethereum.EventParam("account", ethereum.Value.fromAddress(account))
+  )
+  
+  return unpausedEvent
+}
+
+export function createEmergencyWithdrawEvent(
+  to: Address,
+  amount: BigInt
+): EmergencyWithdraw {
+  let emergencyWithdrawEvent = changetype<EmergencyWithdraw>(newMockEvent())
+  
+  emergencyWithdrawEvent.parameters = new Array()
+  
+  emergencyWithdrawEvent.parameters.push(
+    new ethereum.EventParam("to", ethereum.Value.fromAddress(to))
+  )
+  
+  emergencyWithdrawEvent.parameters.push(
+    new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount))
+  )
+  
+  return emergencyWithdrawEvent
+}
+
+// Mappings fall back to event data when a view reverts, so tests start from reverting views
+export function mockRevertingViews(contract: Address, signatures: string[]): void {
+  for (let i = 0; i < signatures.length; i++) {
+    let name = signatures[i].slice(0, signatures[i].indexOf("("))
+    createMockedFunction(contract, name, signatures[i]).reverts()
+  }
+}
+
+export function mockUint256View(contract: Address, signature: string, value: BigInt): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromUnsignedBigInt(value)])
+}
+
+export function mockAddressView(contract: Address, signature: string, value: Address): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromAddress(value)])
+}
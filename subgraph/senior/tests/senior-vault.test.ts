@@ -0,0 +1,609 @@
+import {
+  assert,
+  beforeEach,
+  clearStore,
+  createMockedFunction,
+  dataSourceMock,
+  describe,
+  test
+} from "matchstick-as"
+import { Address, BigInt, Bytes, DataSourceContext, ethereum } from "@graphprotocol/graph-ts"
+import {
+  handleDeposit,
+  handleWithdraw,
+  handleTransfer,
+  handleBackstopTriggered,
+  handleProfitSpillover,
+  handleCooldownInitiated,
+  handleWithdrawalPenalty,
+  handleVaultValueUpdated,
+  handleFeesCollected,
+  handleBGTClaimed,
+  handleRebase,
+  handleRebaseExecuted,
+  handleWithdrawalFeeCharged,
+  handleAdminSet,
+  handleAdminTransferred,
+  handleSeederAdded,
+  handleSeederRevoked,
+  handleLiquidityManagerSet,
+  handlePriceFeedManagerSet,
+  handleContractUpdaterSet,
+  handleUpgraded,
+  handleInitialized,
+  handleKodiakHookUpdated,
+  handleKodiakDeployment,
+  handleLPInvestment,
+  handleLPTokensWithdrawn,
+  handleLPLiquidationExecuted,
+  handleLiquidityFreedForWithdrawal,
+  handleWhitelistedLPAdded,
+  handleWhitelistedLPRemoved,
+  handleWhitelistedLPTokenAdded,
+  handleWhitelistedLPTokenRemoved,
+  handleVaultSeeded,
+  handleRewardVaultSet,
+  handleStakedIntoRewardVault,
+  handleWithdrawnFromRewardVault,
+  handleBackstopShortfall,
+  handlePaused,
+  handleUnpaused,
+  handleEmergencyWithdraw
+} from "../src/mapping"
+import {
+  createDepositEvent,
+  createWithdrawEvent,
+  createTransferEvent,
+  createBackstopTriggeredEvent,
+  createProfitSpilloverEvent,
+  createCooldownInitiatedEvent,
+  createWithdrawalPenaltyChargedEvent,
+  createVaultValueUpdatedEvent,
+  createFeesCollectedEvent,
+  createBGTClaimedEvent,
+  createRebaseEvent,
+  createRebaseExecutedEvent,
+  createWithdrawalFeeChargedEvent,
+  createAdminSetEvent,
+  createAdminTransferredEvent,
+  createSeederAddedEvent,
+  createSeederRevokedEvent,
+  createLiquidityManagerSetEvent,
+  createPriceFeedManagerSetEvent,
+  createContractUpdaterSetEvent,
+  createUpgradedEvent,
+  createInitializedEvent,
+  createKodiakHookUpdatedEvent,
+  createKodiakDeploymentEvent,
+  createLPInvestmentEvent,
+  createLPTokensWithdrawnEvent,
+  createLPLiquidationExecutedEvent,
+  createLiquidityFreedForWithdrawalEvent,
+  createWhitelistedLPAddedEvent,
+  createWhitelistedLPRemovedEvent,
+  createWhitelistedLPTokenAddedEvent,
+  createWhitelistedLPTokenRemovedEvent,
+  createVaultSeededEvent,
+  createRewardVaultSetEvent,
+  createStakedIntoRewardVaultEvent,
+  createWithdrawnFromRewardVaultEvent,
+  createBackstopShortfallEvent,
+  createPausedEvent,
+  createUnpausedEvent,
+  createEmergencyWithdrawEvent,
+  mockAddressView,
+  mockRevertingViews,
+  mockUint256View
+} from "./senior-vault-utils"
+
+// newMockEvent() emits from this address and reuses it as the transaction hash
+let VAULT = Address.fromString("0xa16081f360e3847006db660bae1c6d1b2e17ec2a")
+let TX_HASH = "0xa16081f360e3847006db660bae1c6d1b2e17ec2a"
+
+let ALICE = Address.fromString("0x00000000000000000000000000000000000000a1")
+let BOB = Address.fromString("0x00000000000000000000000000000000000000b2")
+let TREASURY = Address.fromString("0x00000000000000000000000000000000000000c3")
+let RESERVE = Address.fromString("0x00000000000000000000000000000000000000c4")
+let HOOK = Address.fromString("0x00000000000000000000000000000000000000d1")
+let NEXT_HOOK = Address.fromString("0x00000000000000000000000000000000000000d2")
+let ISLAND = Address.fromString("0x00000000000000000000000000000000000000d3")
+let LP = Address.fromString("0x00000000000000000000000000000000000000e1")
+let LP_TOKEN = Address.fromString("0x00000000000000000000000000000000000000e2")
+let REWARD_VAULT = Address.fromString("0x00000000000000000000000000000000000000f1")
+let IMPLEMENTATION_V1 = Address.fromString("0x0000000000000000000000000000000000000101")
+let IMPLEMENTATION_V2 = Address.fromString("0x0000000000000000000000000000000000000102")
+
+let PRECISION = BigInt.fromString("1000000000000000000")
+
+let VAULT_VIEWS = [
+  "kodiakHook():(address)",
+  "vaultValue():(uint256)",
+  "totalSupply():(uint256)",
+  "totalShares():(uint256)",
+  "rebaseIndex():(uint256)",
+  "backingRatio():(uint256)",
+  "currentZone():(uint8)"
+]
+let HOOK_VIEWS = [
+  "island():(address)",
+  "router():(address)",
+  "wbera():(address)",
+  "minSharesPerAssetBps():(uint256)",
+  "minAssetOutBps():(uint256)",
+  "safetyMultiplier():(uint256)",
+  "getIslandLPBalance():(uint256)"
+]
+
+function eventId(logIndex: i32): string {
+  return TX_HASH + "-" + logIndex.toString()
+}
+
+function at<T extends ethereum.Event>(event: T, logIndex: i32): T {
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+function amount(value: i32): BigInt {
+  return BigInt.fromI32(value)
+}
+
+function rebase(epoch: i32, zone: i32, logIndex: i32): void {
+  handleRebaseExecuted(
+    at(createRebaseExecutedEvent(amount(epoch), 3, PRECISION, PRECISION, amount(1000), zone), logIndex)
+  )
+}
+
+beforeEach(() => {
+  clearStore()
+  mockRevertingViews(VAULT, VAULT_VIEWS)
+  mockRevertingViews(Address.zero(), HOOK_VIEWS)
+  mockRevertingViews(HOOK, HOOK_VIEWS)
+  mockRevertingViews(NEXT_HOOK, HOOK_VIEWS)
+})
+
+describe("Deposits", () => {
+  test("creates each user once and counts them in totalUsers", () => {
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, amount(200), amount(200)), 2))
+    handleDeposit(at(createDepositEvent(BOB, amount(300), amount(300)), 3))
+
+    assert.entityCount("User", 2)
+    assert.fieldEquals("ProtocolStats", "protocol", "totalUsers", "2")
+  })
+
+  test("accumulates totals per user, protocol and period", () => {
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, amount(200), amount(200)), 2))
+    handleDeposit(at(createDepositEvent(BOB, amount(300), amount(300)), 3))
+
+    assert.fieldEquals("User", ALICE.toHexString(), "totalDeposited", "300")
+    assert.fieldEquals("User", ALICE.toHexString(), "costBasis", "300")
+    assert.fieldEquals("User", BOB.toHexString(), "totalDeposited", "300")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalDeposits", "600")
+    assert.fieldEquals("VaultHourSnapshot", "0", "netFlow", "600")
+    assert.fieldEquals("VaultDaySnapshot", "0", "deposits", "600")
+  })
+
+  test("keys deposits by transaction hash and log index", () => {
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, amount(200), amount(200)), 2))
+
+    assert.entityCount("Deposit", 2)
+    assert.fieldEquals("Deposit", eventId(1), "assets", "100")
+    assert.fieldEquals("Deposit", eventId(2), "assets", "200")
+    assert.fieldEquals("Deposit", eventId(2), "user", ALICE.toHexString())
+  })
+})
+
+describe("Withdrawals and transfers", () => {
+  test("realizes PnL against the cost basis of the burned shares", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, amount(1000), amount(1000)), 2))
+    handleTransfer(at(createTransferEvent(ALICE, Address.zero(), amount(400)), 3))
+    handleWithdraw(at(createWithdrawEvent(ALICE, amount(450), amount(400)), 4))
+
+    assert.fieldEquals("Withdrawal", eventId(4), "costBasis", "400")
+    assert.fieldEquals("Withdrawal", eventId(4), "proceeds", "450")
+    assert.fieldEquals("Withdrawal", eventId(4), "realizedPnL", "50")
+    assert.fieldEquals("User", ALICE.toHexString(), "costBasis", "600")
+    assert.fieldEquals("User", ALICE.toHexString(), "realizedPnL", "50")
+    assert.fieldEquals("User", ALICE.toHexString(), "totalWithdrawn", "450")
+    assert.fieldEquals("User", ALICE.toHexString(), "shareBalance", "600")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalWithdrawals", "450")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalShares", "600")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalHolders", "1")
+  })
+
+  test("links a penalty charged in the same transaction", () => {
+    handleWithdrawalPenalty(at(createWithdrawalPenaltyChargedEvent(ALICE, amount(10)), 1))
+    handleWithdraw(at(createWithdrawEvent(ALICE, amount(90), amount(100)), 2))
+
+    assert.fieldEquals("Penalty", eventId(1), "withdrawal", eventId(2))
+    assert.fieldEquals("Penalty", eventId(1), "effectiveRateBps", "1000")
+  })
+
+  test("moves cost basis and holder counts between users", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(1000)), 1))
+    handleDeposit(at(createDepositEvent(ALICE, amount(1000), amount(1000)), 2))
+    handleTransfer(at(createTransferEvent(ALICE, BOB, amount(250)), 3))
+
+    assert.fieldEquals("Transfer", eventId(3), "type", "TRANSFER")
+    assert.fieldEquals("Transfer", eventId(3), "costBasis", "250")
+    assert.fieldEquals("User", ALICE.toHexString(), "shareBalance", "750")
+    assert.fieldEquals("User", BOB.toHexString(), "costBasis", "250")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalHolders", "2")
+  })
+
+  test("charges withdrawal fees to the user", () => {
+    handleWithdrawalFeeCharged(at(createWithdrawalFeeChargedEvent(ALICE, amount(5), amount(95)), 1))
+
+    assert.fieldEquals("User", ALICE.toHexString(), "totalFeesPaid", "5")
+    assert.fieldEquals("FeeLedgerEntry", eventId(1), "netAmount", "95")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalWithdrawalFees", "5")
+  })
+
+  test("starts a pending cooldown", () => {
+    handleCooldownInitiated(at(createCooldownInitiatedEvent(ALICE, amount(1000)), 1))
+
+    assert.fieldEquals("Cooldown", eventId(1), "user", ALICE.toHexString())
+    assert.fieldEquals("CooldownState", ALICE.toHexString(), "status", "PENDING")
+    assert.fieldEquals("CooldownState", ALICE.toHexString(), "maturityTime", "605800")
+  })
+})
+
+describe("Rebases", () => {
+  test("records the epoch, its APY tier target and backing ratio", () => {
+    mockUint256View(VAULT, "backingRatio():(uint256)", BigInt.fromString("1050000000000000000"))
+    let newIndex = BigInt.fromString("1010000000000000000")
+    handleRebaseExecuted(
+      at(createRebaseExecutedEvent(amount(1), 2, PRECISION, newIndex, amount(1000), 1), 1)
+    )
+
+    assert.fieldEquals("Epoch", "1", "targetApyBps", "1200")
+    assert.fieldEquals("Epoch", "1", "backingRatio", "1050000000000000000")
+    assert.fieldEquals("HealthState", VAULT.toHexString(), "zone", "HEALTHY")
+    assert.entityCount("ZoneTransition", 0)
+    assert.fieldEquals("ProtocolStats", "protocol", "currentEpoch", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "rebaseIndex", "1010000000000000000")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalRebases", "1")
+  })
+
+  test("records a zone transition only when the zone changes", () => {
+    rebase(1, 2, 1)
+    rebase(2, 2, 2)
+    rebase(3, 1, 3)
+
+    assert.entityCount("ZoneTransition", 2)
+    assert.fieldEquals("ZoneTransition", eventId(1), "fromZone", "HEALTHY")
+    assert.fieldEquals("ZoneTransition", eventId(1), "toZone", "SPILLOVER")
+    assert.fieldEquals("ZoneTransition", eventId(3), "toZone", "HEALTHY")
+    assert.fieldEquals("HealthState", VAULT.toHexString(), "totalTransitions", "2")
+  })
+
+  test("links spillovers and fees to the epoch of their transaction", () => {
+    handleProfitSpillover(at(createProfitSpilloverEvent(amount(100), amount(60), amount(40)), 1))
+    handleFeesCollected(at(createFeesCollectedEvent(amount(5), amount(10)), 2))
+    rebase(1, 2, 3)
+
+    assert.fieldEquals("Spillover", eventId(1), "epoch", "1")
+    assert.fieldEquals("FeeCollection", eventId(2), "epoch", "1")
+    assert.fieldEquals("FeeLedgerEntry", eventId(2) + "-management", "amount", "5")
+    assert.fieldEquals("FeeLedgerEntry", eventId(2) + "-performance", "amount", "10")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSpillovers", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSpilloverAmount", "100")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalManagementFees", "5")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalPerformanceFees", "10")
+  })
+
+  test("splits backstops by source and records unrestored shortfalls", () => {
+    handleBackstopTriggered(
+      at(createBackstopTriggeredEvent(amount(1000), amount(600), amount(300), false), 1)
+    )
+    rebase(1, 0, 2)
+
+    assert.fieldEquals("Backstop", eventId(1), "epoch", "1")
+    assert.fieldEquals("BackstopShortfall", eventId(1), "type", "UNRESTORED_BACKSTOP")
+    assert.fieldEquals("BackstopShortfall", eventId(1), "shortfall", "100")
+    assert.fieldEquals("HealthState", VAULT.toHexString(), "totalBackstopFromReserve", "600")
+    assert.fieldEquals("HealthState", VAULT.toHexString(), "totalBackstopFromJunior", "300")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalBackstops", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalBackstopAmount", "900")
+  })
+
+  test("measures realized APY from the minted yield once the index is frozen", () => {
+    let index = BigInt.fromString("1010000000000000000")
+    let indexed = at(createRebaseExecutedEvent(amount(1), 3, PRECISION, index, amount(10000), 1), 1)
+    indexed.block.timestamp = amount(1000)
+    handleRebaseExecuted(indexed)
+
+    // Post-migration rebase: 1200 user yield plus 30 in fees minted to the admin, no Rebase event
+    let migratedTx = Bytes.fromHexString("0x00000000000000000000000000000000000000000000000000000000000000f2")
+    let year = 365 * 24 * 60 * 60
+    let mint = at(createTransferEvent(Address.zero(), TREASURY, amount(1230)), 1)
+    let frozen = at(createRebaseExecutedEvent(amount(2), 3, index, index, amount(11230), 1), 2)
+    let fees = at(createFeesCollectedEvent(amount(10), amount(20)), 3)
+    mint.transaction.hash = migratedTx
+    frozen.transaction.hash = migratedTx
+    fees.transaction.hash = migratedTx
+    mint.block.timestamp = amount(1000 + year)
+    frozen.block.timestamp = amount(1000 + year)
+    fees.block.timestamp = amount(1000 + year)
+    handleTransfer(mint)
+    handleRebaseExecuted(frozen)
+    handleFeesCollected(fees)
+
+    assert.fieldEquals("Epoch", "2", "yieldMinted", "1230")
+    assert.fieldEquals("Epoch", "2", "realizedApyBps", "1200")
+    assert.fieldEquals("Epoch", "2", "apyDeviationBps", "-100")
+    assert.fieldEquals("YieldStats", VAULT.toHexString(), "nonRebasing", "true")
+    assert.fieldEquals("YieldStats", VAULT.toHexString(), "yieldIndex", "1131200000000000000")
+    assert.fieldEquals("YieldStats", VAULT.toHexString(), "lastRebaseTimestamp", (1000 + year).toString())
+  })
+
+  test("applies the legacy Rebase event", () => {
+    let newIndex = BigInt.fromString("1020000000000000000")
+    handleRebase(at(createRebaseEvent(amount(1), PRECISION, newIndex, amount(5000)), 1))
+
+    assert.fieldEquals("Epoch", "1", "newTotalSupply", "5000")
+    assert.fieldEquals("ProtocolStats", "protocol", "rebaseIndex", "1020000000000000000")
+  })
+})
+
+describe("Vault value and state", () => {
+  test("updates vault value and idle capital", () => {
+    handleVaultValueUpdated(at(createVaultValueUpdatedEvent(amount(0), amount(5000), amount(0)), 1))
+
+    assert.fieldEquals("VaultValue", eventId(1), "newValue", "5000")
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "5000")
+    assert.fieldEquals("ProtocolStats", "protocol", "idleCapital", "5000")
+  })
+
+  test("attaches one vault state per block read from contract views", () => {
+    mockUint256View(VAULT, "vaultValue():(uint256)", amount(2000))
+    mockUint256View(VAULT, "totalSupply():(uint256)", amount(1900))
+    mockUint256View(VAULT, "totalShares():(uint256)", amount(1000))
+    mockUint256View(VAULT, "backingRatio():(uint256)", BigInt.fromString("1050000000000000000"))
+    createMockedFunction(VAULT, "currentZone", "currentZone():(uint8)").returns([ethereum.Value.fromI32(2)])
+
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 1))
+    handleDeposit(at(createDepositEvent(BOB, amount(100), amount(100)), 2))
+
+    let stateId = VAULT.toHexString() + "-1"
+    assert.entityCount("VaultStateAtBlock", 1)
+    assert.fieldEquals("Deposit", eventId(2), "vaultState", stateId)
+    assert.fieldEquals("VaultStateAtBlock", stateId, "totalAssets", "2000")
+    assert.fieldEquals("VaultStateAtBlock", stateId, "pricePerShare", "2000000000000000000")
+    assert.fieldEquals("VaultStateAtBlock", stateId, "zone", "SPILLOVER")
+  })
+
+  test("still indexes when every view reverts", () => {
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 1))
+
+    assert.fieldEquals("VaultStateAtBlock", VAULT.toHexString() + "-1", "vault", VAULT.toHexString())
+    assert.fieldEquals("Deposit", eventId(1), "assets", "100")
+  })
+})
+
+describe("Reward vault", () => {
+  test("tracks stake balance and BGT per staked unit", () => {
+    handleRewardVaultSet(at(createRewardVaultSetEvent(Address.zero(), REWARD_VAULT), 1))
+    handleStakedIntoRewardVault(at(createStakedIntoRewardVaultEvent(amount(1000)), 2))
+    handleWithdrawnFromRewardVault(at(createWithdrawnFromRewardVaultEvent(amount(1500)), 3))
+    handleStakedIntoRewardVault(at(createStakedIntoRewardVaultEvent(amount(400)), 4))
+    handleBGTClaimed(at(createBGTClaimedEvent(ALICE, amount(80)), 5))
+
+    assert.fieldEquals("RewardVaultPosition", VAULT.toHexString(), "rewardVault", REWARD_VAULT.toHexString())
+    assert.fieldEquals("RewardVaultPosition", VAULT.toHexString(), "stakedAmount", "400")
+    assert.fieldEquals("RewardVaultPosition", VAULT.toHexString(), "totalStaked", "1400")
+    assert.fieldEquals("RewardVaultPosition", VAULT.toHexString(), "totalBGTClaimed", "80")
+    assert.fieldEquals("RewardVaultStake", eventId(3), "stakedAfter", "0")
+    assert.fieldEquals("BGTRecipient", ALICE.toHexString(), "totalClaimed", "80")
+    assert.fieldEquals("RewardVaultDayData", "0", "bgtPerStakedUnit", "200000000000000000")
+  })
+})
+
+describe("Roles and upgrades", () => {
+  test("tracks current roles and every assignment", () => {
+    handleAdminSet(at(createAdminSetEvent(Address.zero(), ALICE), 1))
+    handleSeederAdded(at(createSeederAddedEvent(BOB), 2))
+    handleLiquidityManagerSet(at(createLiquidityManagerSetEvent(ALICE), 3))
+    handlePriceFeedManagerSet(at(createPriceFeedManagerSetEvent(BOB), 4))
+    handleContractUpdaterSet(at(createContractUpdaterSetEvent(ALICE), 5))
+    handleAdminTransferred(at(createAdminTransferredEvent(ALICE, BOB), 6))
+    handleSeederRevoked(at(createSeederRevokedEvent(BOB), 7))
+
+    assert.entityCount("RoleAssignment", 7)
+    assert.fieldEquals("RoleAssignment", eventId(7), "action", "REVOKED")
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "admin", BOB.toHexString())
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "liquidityManager", ALICE.toHexString())
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "priceFeedManager", BOB.toHexString())
+    assert.fieldEquals("CurrentRoles", VAULT.toHexString(), "contractUpdater", ALICE.toHexString())
+  })
+
+  test("deactivates the previous implementation on upgrade", () => {
+    handleUpgraded(at(createUpgradedEvent(IMPLEMENTATION_V1), 1))
+    handleInitialized(at(createInitializedEvent(amount(1)), 2))
+    handleUpgraded(at(createUpgradedEvent(IMPLEMENTATION_V2), 3))
+    handleDeposit(at(createDepositEvent(ALICE, amount(100), amount(100)), 4))
+
+    assert.fieldEquals("Implementation", IMPLEMENTATION_V1.toHexString(), "isActive", "false")
+    assert.fieldEquals("Implementation", IMPLEMENTATION_V1.toHexString(), "initializedVersion", "1")
+    assert.fieldEquals("Implementation", IMPLEMENTATION_V2.toHexString(), "isActive", "true")
+    assert.fieldEquals("Upgrade", eventId(3), "previousImplementation", IMPLEMENTATION_V1.toHexString())
+    assert.fieldEquals("Deposit", eventId(4), "implementation", IMPLEMENTATION_V2.toHexString())
+  })
+})
+
+describe("Kodiak LP", () => {
+  beforeEach(() => {
+    mockAddressView(HOOK, "island():(address)", ISLAND)
+    mockUint256View(HOOK, "getIslandLPBalance():(uint256)", amount(480))
+  })
+
+  test("creates the hook and its template on first sighting", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+
+    assert.fieldEquals("KodiakHook", HOOK.toHexString(), "isActive", "true")
+    assert.fieldEquals("KodiakHook", HOOK.toHexString(), "island", ISLAND.toHexString())
+    assert.fieldEquals("ProtocolStats", "protocol", "kodiakHook", HOOK.toHexString())
+    assert.dataSourceExists("KodiakVaultHook", HOOK.toHexString())
+  })
+
+  test("de-whitelists the old hook when it is replaced", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleWhitelistedLPAdded(at(createWhitelistedLPAddedEvent(HOOK), 2))
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(NEXT_HOOK), 3))
+
+    let entryId = VAULT.toHexString() + "-LP-" + HOOK.toHexString()
+    assert.fieldEquals("WhitelistEntry", entryId, "isWhitelisted", "false")
+    assert.fieldEquals("KodiakHook", HOOK.toHexString(), "isActive", "false")
+    assert.fieldEquals("KodiakHook", NEXT_HOOK.toHexString(), "isActive", "true")
+    assert.fieldEquals("ProtocolStats", "protocol", "whitelistedLPs", "0")
+  })
+
+  test("opens the island position on deployment and syncs its LP balance", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleKodiakDeployment(at(createKodiakDeploymentEvent(amount(1000), amount(500), amount(1)), 2))
+
+    let positionId = VAULT.toHexString() + "-" + ISLAND.toHexString()
+    assert.fieldEquals("LPPosition", positionId, "capitalDeployed", "1000")
+    assert.fieldEquals("LPPosition", positionId, "lpReceived", "500")
+    assert.fieldEquals("LPPosition", positionId, "lpHeld", "480")
+    assert.fieldEquals("LPPosition", positionId, "marketLpPrice", "2000000000000000000")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalCapitalDeployed", "1000")
+    assert.fieldEquals("ProtocolStats", "protocol", "deployedCapital", "1000")
+  })
+
+  test("returns liquidated capital to the position", () => {
+    handleKodiakHookUpdated(at(createKodiakHookUpdatedEvent(HOOK), 1))
+    handleKodiakDeployment(at(createKodiakDeploymentEvent(amount(1000), amount(500), amount(1)), 2))
+    handleLPLiquidationExecuted(at(createLPLiquidationExecutedEvent(amount(300), amount(290), amount(280)), 3))
+    handleLiquidityFreedForWithdrawal(at(createLiquidityFreedForWithdrawalEvent(amount(300), amount(290)), 4))
+
+    let positionId = VAULT.toHexString() + "-" + ISLAND.toHexString()
+    assert.fieldEquals("LPLiquidation", eventId(3), "realizedSlippage", "10")
+    assert.fieldEquals("LPLiquidation", eventId(3), "realizedSlippageBps", "333")
+    assert.fieldEquals("LiquidityRelease", TX_HASH, "requested", "300")
+    assert.fieldEquals("LiquidityRelease", TX_HASH, "freedFromLP", "290")
+    assert.fieldEquals("LPPosition", positionId, "netCapitalDeployed", "710")
+    assert.fieldEquals("ProtocolStats", "protocol", "deployedCapital", "710")
+  })
+
+  test("links LP investments and withdrawals to their whitelist entries", () => {
+    handleWhitelistedLPAdded(at(createWhitelistedLPAddedEvent(LP), 1))
+    handleWhitelistedLPTokenAdded(at(createWhitelistedLPTokenAddedEvent(LP_TOKEN), 2))
+    handleLPInvestment(at(createLPInvestmentEvent(LP, amount(500)), 3))
+    handleLPTokensWithdrawn(at(createLPTokensWithdrawnEvent(LP_TOKEN, LP, amount(200)), 4))
+
+    assert.fieldEquals("LPPosition", VAULT.toHexString() + "-" + LP.toHexString(), "capitalDeployed", "500")
+    assert.fieldEquals("LPPosition", VAULT.toHexString() + "-" + LP_TOKEN.toHexString(), "lpExited", "200")
+    assert.fieldEquals("LPDeployment", eventId(3), "whitelistEntry", VAULT.toHexString() + "-LP-" + LP.toHexString())
+    assert.fieldEquals(
+      "LPExit",
+      eventId(4),
+      "lpTokenWhitelistEntry",
+      VAULT.toHexString() + "-LP_TOKEN-" + LP_TOKEN.toHexString()
+    )
+  })
+
+  test("counts whitelist changes only when the status flips", () => {
+    handleWhitelistedLPAdded(at(createWhitelistedLPAddedEvent(LP), 1))
+    handleWhitelistedLPAdded(at(createWhitelistedLPAddedEvent(LP), 2))
+    handleWhitelistedLPTokenAdded(at(createWhitelistedLPTokenAddedEvent(LP_TOKEN), 3))
+    handleWhitelistedLPRemoved(at(createWhitelistedLPRemovedEvent(LP), 4))
+    handleWhitelistedLPTokenRemoved(at(createWhitelistedLPTokenRemovedEvent(LP_TOKEN), 5))
+
+    assert.entityCount("WhitelistChange", 5)
+    assert.fieldEquals("WhitelistEntry", VAULT.toHexString() + "-LP-" + LP.toHexString(), "isWhitelisted", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "whitelistedLPs", "0")
+    assert.fieldEquals("ProtocolStats", "protocol", "whitelistedLPTokens", "0")
+  })
+})
+
+describe("Seeding", () => {
+  test("links the seed to its share mint and raises vault value", () => {
+    handleTransfer(at(createTransferEvent(Address.zero(), ALICE, amount(500)), 1))
+    handleVaultSeeded(
+      at(createVaultSeededEvent(LP_TOKEN, ALICE, amount(250), PRECISION.times(amount(2)), amount(500), amount(500)), 2)
+    )
+
+    assert.fieldEquals("Seed", eventId(2), "type", "LP")
+    assert.fieldEquals("Seed", eventId(2), "transfer", eventId(1))
+    assert.fieldEquals("Transfer", eventId(1), "seed", eventId(2))
+    assert.fieldEquals("User", ALICE.toHexString(), "costBasis", "500")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSeeds", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSeededLPValue", "500")
+    assert.fieldEquals("ProtocolStats", "protocol", "vaultValue", "500")
+  })
+})
+
+describe("Incidents", () => {
+  test("groups pause and unpause into an outage window", () => {
+    let paused = at(createPausedEvent(ALICE), 1)
+    paused.block.timestamp = amount(100)
+    handlePaused(paused)
+
+    assert.fieldEquals("ProtocolStats", "protocol", "paused", "true")
+    assert.fieldEquals("ProtocolStats", "protocol", "currentOutage", eventId(1))
+
+    let emergency = at(createEmergencyWithdrawEvent(TREASURY, amount(50)), 2)
+    emergency.block.timestamp = amount(150)
+    handleEmergencyWithdraw(emergency)
+
+    let unpaused = at(createUnpausedEvent(ALICE), 3)
+    unpaused.block.timestamp = amount(400)
+    handleUnpaused(unpaused)
+
+    assert.fieldEquals("Outage", eventId(1), "active", "false")
+    assert.fieldEquals("Outage", eventId(1), "duration", "300")
+    assert.fieldEquals("Incident", eventId(2), "severity", "CRITICAL")
+    assert.fieldEquals("Incident", eventId(2), "outage", eventId(1))
+    assert.fieldEquals("ProtocolStats", "protocol", "paused", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalIncidents", "3")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalOutages", "1")
+  })
+
+  test("records backstop shortfalls as critical incidents", () => {
+    handleBackstopShortfall(at(createBackstopShortfallEvent(RESERVE, amount(1000), amount(700)), 1))
+
+    assert.fieldEquals("BackstopShortfall", eventId(1), "type", "SOURCE_SHORTFALL")
+    assert.fieldEquals("BackstopShortfall", eventId(1), "shortfall", "300")
+    assert.fieldEquals("Incident", eventId(1), "amount", "300")
+    assert.fieldEquals("HealthState", VAULT.toHexString(), "totalShortfalls", "1")
+  })
+})
+
+describe("Points", () => {
+  test("weights balance-seconds by the rebase index", () => {
+    let context = new DataSourceContext()
+    context.setI32("pointsPeriodSeconds", 100)
+    dataSourceMock.setContext(context)
+
+    let mint = at(createTransferEvent(Address.zero(), ALICE, amount(100)), 1)
+    mint.block.timestamp = amount(10)
+    handleTransfer(mint)
+
+    let newIndex = PRECISION.times(amount(2))
+    let rebase = at(createRebaseEvent(amount(1), PRECISION, newIndex, amount(200)), 3)
+    rebase.block.timestamp = amount(50)
+    handleRebase(rebase)
+
+    let transfer = at(createTransferEvent(ALICE, BOB, amount(100)), 4)
+    transfer.block.timestamp = amount(150)
+    handleTransfer(transfer)
+
+    // 100 for 40s at the old index, then 200 for 50s up to the period boundary and 50s after it
+    let alice = ALICE.toHexString()
+    assert.fieldEquals("User", alice, "balanceSeconds", "24000")
+    assert.fieldEquals("PointsPeriod", alice + "-1", "startBalanceSeconds", "14000")
+    assert.fieldEquals("PointsPeriod", alice + "-1", "balanceSeconds", "24000")
+    assert.fieldEquals("PointsPeriod", alice + "-1", "shareBalance", "50")
+    assert.fieldEquals("PointsPeriod", alice + "-1", "index", "1")
+    assert.fieldEquals("PointsPeriodIndex", "1", "startIndexSeconds", PRECISION.times(amount(140)).toString())
+    assert.fieldEquals("PointsPeriodIndex", "1", "indexSeconds", PRECISION.times(amount(240)).toString())
+    assert.fieldEquals("PointsPeriodIndex", "1", "rebaseIndex", newIndex.toString())
+    assert.fieldEquals("ProtocolStats", "protocol", "indexSeconds", PRECISION.times(amount(240)).toString())
+
+    dataSourceMock.resetValues()
+  })
+})
@@ -0,0 +1,109 @@
+import { BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import {
+  CrossTrancheFlow,
+  TrancheFlowLeg,
+  ProtocolStats
+} from "../generated/schema"
+
+export function getOrCreateProtocolStats(): ProtocolStats {
+  let stats = ProtocolStats.load("protocol")
+  if (stats == null) {
+    stats = new ProtocolStats("protocol")
+    stats.totalSpilloverFlows = 0
+    stats.totalBackstopFlows = 0
+    stats.totalMismatchedFlows = 0
+    stats.lastUpdateTimestamp = BigInt.fromI32(0)
+    stats.save()
+  }
+  return stats
+}
+
+// Senior, junior and reserve all emit their side of a spillover or backstop
+// inside the same rebase transaction, so the tx hash is the join key.
+export function getOrCreateCrossTrancheFlow(event: ethereum.Event, type: string): CrossTrancheFlow {
+  let id = event.transaction.hash.toHexString() + "-" + type
+  let flow = CrossTrancheFlow.load(id)
+  if (flow == null) {
+    flow = new CrossTrancheFlow(id)
+    flow.type = type
+    flow.seniorReported = false
+    flow.seniorAmount = BigInt.fromI32(0)
+    flow.seniorJuniorAmount = BigInt.fromI32(0)
+    flow.seniorReserveAmount = BigInt.fromI32(0)
+    flow.roundingTolerance = BigInt.fromI32(0)
+    flow.juniorAmount = BigInt.fromI32(0)
+    flow.reserveAmount = BigInt.fromI32(0)
+    flow.juniorDifference = BigInt.fromI32(0)
+    flow.reserveDifference = BigInt.fromI32(0)
+    flow.juniorMismatch = false
+    flow.reserveMismatch = false
+    flow.hasMismatch = false
+    flow.timestamp = event.block.timestamp
+    flow.blockNumber = event.block.number
+    flow.transactionHash = event.transaction.hash
+    flow.save()
+    
+    let stats = getOrCreateProtocolStats()
+    if (type == "SPILLOVER") {
+      stats.totalSpilloverFlows = stats.totalSpilloverFlows + 1
+    } else {
+      stats.totalBackstopFlows = stats.totalBackstopFlows + 1
+    }
+    stats.lastUpdateTimestamp = event.block.timestamp
+    stats.save()
+  }
+  return flow
+}
+
+export function createFlowLeg(
+  event: ethereum.Event,
+  flow: CrossTrancheFlow,
+  tranche: string,
+  amount: BigInt
+): void {
+  let leg = new TrancheFlowLeg(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  
+  leg.flow = flow.id
+  leg.tranche = tranche
+  leg.vault = event.address
+  leg.amount = amount
+  leg.timestamp = event.block.timestamp
+  leg.blockNumber = event.block.number
+  leg.transactionHash = event.transaction.hash
+  leg.save()
+}
+
+// A tranche leg is off when its counterparty is not the senior vault that
+// reported the flow, or when it falls short of senior's figure by more than the
+// rounding tolerance. A tranche never receives more than senior reports, so any
+// excess is a mismatch too.
+function isLegMismatch(difference: BigInt, tolerance: BigInt, counterparty: Bytes | null, senior: Bytes): boolean {
+  if (counterparty !== null && !counterparty.equals(senior)) return true
+  return difference.lt(BigInt.fromI32(0)) || difference.gt(tolerance)
+}
+
+// Differences are what senior says it sent (or pulled) minus what the tranche
+// reports; they are only meaningful once the senior side has been seen.
+export function updateFlowMismatch(flow: CrossTrancheFlow): void {
+  let hadMismatch = flow.hasMismatch
+  
+  if (flow.seniorReported) {
+    let senior = flow.seniorVault!
+    flow.juniorDifference = flow.seniorJuniorAmount.minus(flow.juniorAmount)
+    flow.reserveDifference = flow.seniorReserveAmount.minus(flow.reserveAmount)
+    flow.juniorMismatch = isLegMismatch(flow.juniorDifference, flow.roundingTolerance, flow.juniorCounterparty, senior)
+    flow.reserveMismatch = isLegMismatch(flow.reserveDifference, flow.roundingTolerance, flow.reserveCounterparty, senior)
+  }
+  flow.hasMismatch = flow.juniorMismatch || flow.reserveMismatch
+  flow.save()
+  
+  if (hadMismatch != flow.hasMismatch) {
+    let stats = getOrCreateProtocolStats()
+    stats.totalMismatchedFlows = flow.hasMismatch
+      ? stats.totalMismatchedFlows + 1
+      : stats.totalMismatchedFlows - 1
+    stats.save()
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  SpilloverReceived as SpilloverReceivedEvent,
+  BackstopProvided as BackstopProvidedEvent
+} from "../generated/JuniorVault/JuniorVault"
+import {
+  getOrCreateCrossTrancheFlow,
+  createFlowLeg,
+  updateFlowMismatch
+} from "./flows"
+
+export function handleSpilloverReceived(event: SpilloverReceivedEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "SPILLOVER")
+  
+  flow.juniorAmount = flow.juniorAmount.plus(event.params.amount)
+  flow.juniorCounterparty = event.params.fromSenior
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "JUNIOR", event.params.amount)
+}
+
+export function handleBackstopProvided(event: BackstopProvidedEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "BACKSTOP")
+  
+  flow.juniorAmount = flow.juniorAmount.plus(event.params.amount)
+  flow.juniorCounterparty = event.params.toSenior
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "JUNIOR", event.params.amount)
+}
@@ -0,0 +1,29 @@
+import {
+  SpilloverReceived as SpilloverReceivedEvent,
+  BackstopProvided as BackstopProvidedEvent
+} from "../generated/ReserveVault/ReserveVault"
+import {
+  getOrCreateCrossTrancheFlow,
+  createFlowLeg,
+  updateFlowMismatch
+} from "./flows"
+
+export function handleSpilloverReceived(event: SpilloverReceivedEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "SPILLOVER")
+  
+  flow.reserveAmount = flow.reserveAmount.plus(event.params.amount)
+  flow.reserveCounterparty = event.params.fromSenior
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "RESERVE", event.params.amount)
+}
+
+export function handleBackstopProvided(event: BackstopProvidedEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "BACKSTOP")
+  
+  flow.reserveAmount = flow.reserveAmount.plus(event.params.amount)
+  flow.reserveCounterparty = event.params.toSenior
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "RESERVE", event.params.amount)
+}
@@ -0,0 +1,77 @@
+import { BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import {
+  SeniorVault,
+  ProfitSpillover as ProfitSpilloverEvent,
+  BackstopTriggered as BackstopTriggeredEvent
+} from "../generated/SeniorVault/SeniorVault"
+import { KodiakVaultHook } from "../generated/SeniorVault/KodiakVaultHook"
+import { ERC20 } from "../generated/SeniorVault/ERC20"
+import {
+  getOrCreateCrossTrancheFlow,
+  createFlowLeg,
+  updateFlowMismatch
+} from "./flows"
+
+// rebase(uint256)
+let REBASE = "0xbc4f2d6d"
+
+// lpPrice is only in calldata, so it is known when the admin calls rebase() on the vault directly
+function rebaseLPPrice(event: ethereum.Event): BigInt | null {
+  let to = event.transaction.to
+  let input = event.transaction.input
+  if (to === null || !to.equals(event.address) || input.length != 36) return null
+  if (Bytes.fromUint8Array(input.subarray(0, 4)).toHexString() != REBASE) return null
+  
+  let lpPrice = ethereum.decode("uint256", Bytes.fromUint8Array(input.subarray(4)))
+  return lpPrice === null ? null : lpPrice.toBigInt()
+}
+
+// Decimals of the island LP senior's hook holds, or -1 when a call reverts
+function lpDecimals(senior: SeniorVault): i32 {
+  let hook = senior.try_kodiakHook()
+  if (hook.reverted) return -1
+  let island = KodiakVaultHook.bind(hook.value).try_island()
+  if (island.reverted) return -1
+  let decimals = ERC20.bind(island.value).try_decimals()
+  return decimals.reverted ? -1 : decimals.value
+}
+
+export function handleProfitSpillover(event: ProfitSpilloverEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "SPILLOVER")
+  
+  flow.seniorReported = true
+  flow.seniorVault = event.address
+  flow.seniorAmount = event.params.excessAmount
+  flow.seniorJuniorAmount = event.params.toJunior
+  flow.seniorReserveAmount = event.params.toReserve
+  
+  // Each tranche is credited mulDiv(actualLP, lpPrice, 10 ** decimals) for the LP it
+  // was sent, so it can fall short of its USD share by up to one LP unit's value
+  let lpPrice = rebaseLPPrice(event)
+  if (lpPrice !== null) {
+    flow.lpPrice = lpPrice
+    let decimals = lpDecimals(SeniorVault.bind(event.address))
+    if (decimals >= 0) {
+      let unit = BigInt.fromI32(10).pow(u8(decimals))
+      flow.roundingTolerance = lpPrice.plus(unit).minus(BigInt.fromI32(1)).div(unit)
+    }
+  }
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "SENIOR", event.params.excessAmount)
+}
+
+// fromJunior and fromReserve are what provideBackstop() returned, so backstop legs match exactly
+export function handleBackstopTriggered(event: BackstopTriggeredEvent): void {
+  let flow = getOrCreateCrossTrancheFlow(event, "BACKSTOP")
+  
+  flow.seniorReported = true
+  flow.seniorVault = event.address
+  flow.seniorAmount = event.params.deficitAmount
+  flow.seniorJuniorAmount = event.params.fromJunior
+  flow.seniorReserveAmount = event.params.fromReserve
+  flow.fullyRestored = event.params.fullyRestored
+  updateFlowMismatch(flow)
+  
+  createFlowLeg(event, flow, "SENIOR", event.params.deficitAmount)
+}
@@ -0,0 +1,148 @@
+import { createMockedFunction, newMockEvent } from "matchstick-as"
+import { ethereum, Address, BigInt, Bytes } from "@graphprotocol/graph-ts"
+import {
+  ProfitSpillover,
+  BackstopTriggered
+} from "../generated/SeniorVault/SeniorVault"
+import {
+  SpilloverReceived as JuniorSpilloverReceived,
+  BackstopProvided as JuniorBackstopProvided
+} from "../generated/JuniorVault/JuniorVault"
+import {
+  SpilloverReceived as ReserveSpilloverReceived,
+  BackstopProvided as ReserveBackstopProvided
+} from "../generated/ReserveVault/ReserveVault"
+
+export function createProfitSpilloverEvent(
+  vault: Address,
+  excessAmount: BigInt,
+  toJunior: BigInt,
+  toReserve: BigInt
+): ProfitSpillover {
+  let profitSpilloverEvent = changetype<ProfitSpillover>(newMockEvent())
+  profitSpilloverEvent.address = vault
+  
+  profitSpilloverEvent.parameters = new Array()
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("excessAmount", ethereum.Value.fromUnsignedBigInt(excessAmount))
+  )
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("toJunior", ethereum.Value.fromUnsignedBigInt(toJunior))
+  )
+  
+  profitSpilloverEvent.parameters.push(
+    new ethereum.EventParam("toReserve", ethereum.Value.fromUnsignedBigInt(toReserve))
+  )
+  
+  return profitSpilloverEvent
+}
+
+export function createBackstopTriggeredEvent(
+  vault: Address,
+  deficitAmount: BigInt,
+  fromReserve: BigInt,
+  fromJunior: BigInt,
+  fullyRestored: boolean
+): BackstopTriggered {
+  let backstopTriggeredEvent = changetype<BackstopTriggered>(newMockEvent())
+  backstopTriggeredEvent.address = vault
+  
+  backstopTriggeredEvent.parameters = new Array()
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("deficitAmount", ethereum.Value.fromUnsignedBigInt(deficitAmount))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fromReserve", ethereum.Value.fromUnsignedBigInt(fromReserve))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fromJunior", ethereum.Value.fromUnsignedBigInt(fromJunior))
+  )
+  
+  backstopTriggeredEvent.parameters.push(
+    new ethereum.EventParam("fullyRestored", ethereum.Value.fromBoolean(fullyRestored))
+  )
+  
+  return backstopTriggeredEvent
+}
+
+function trancheEventParams(amount: BigInt, seniorName: string, senior: Address): Array<ethereum.EventParam> {
+  let params = new Array<ethereum.EventParam>()
+  params.push(new ethereum.EventParam("amount", ethereum.Value.fromUnsignedBigInt(amount)))
+  params.push(new ethereum.EventParam(seniorName, ethereum.Value.fromAddress(senior)))
+  return params
+}
+
+export function createJuniorSpilloverReceivedEvent(
+  vault: Address,
+  amount: BigInt,
+  fromSenior: Address
+): JuniorSpilloverReceived {
+  let spilloverReceivedEvent = changetype<JuniorSpilloverReceived>(newMockEvent())
+  spilloverReceivedEvent.address = vault
+  spilloverReceivedEvent.parameters = trancheEventParams(amount, "fromSenior", fromSenior)
+  return spilloverReceivedEvent
+}
+
+export function createJuniorBackstopProvidedEvent(
+  vault: Address,
+  amount: BigInt,
+  toSenior: Address
+): JuniorBackstopProvided {
+  let backstopProvidedEvent = changetype<JuniorBackstopProvided>(newMockEvent())
+  backstopProvidedEvent.address = vault
+  backstopProvidedEvent.parameters = trancheEventParams(amount, "toSenior", toSenior)
+  return backstopProvidedEvent
+}
+
+export function createReserveSpilloverReceivedEvent(
+  vault: Address,
+  amount: BigInt,
+  fromSenior: Address
+): ReserveSpilloverReceived {
+  let spilloverReceivedEvent = changetype<ReserveSpilloverReceived>(newMockEvent())
+  spilloverReceivedEvent.address = vault
+  spilloverReceivedEvent.parameters = trancheEventParams(amount, "fromSenior", fromSenior)
+  return spilloverReceivedEvent
+}
+
+export function createReserveBackstopProvidedEvent(
+  vault: Address,
+  amount: BigInt,
+  toSenior: Address
+): ReserveBackstopProvided {
+  let backstopProvidedEvent = changetype<ReserveBackstopProvided>(newMockEvent())
+  backstopProvidedEvent.address = vault
+  backstopProvidedEvent.parameters = trancheEventParams(amount, "toSenior", toSenior)
+  return backstopProvidedEvent
+}
+
+// Makes the event look like it came from the admin calling rebase(lpPrice) on `vault`
+export function asRebaseCall<T extends ethereum.Event>(event: T, vault: Address, lpPrice: BigInt): T {
+  event.transaction.to = vault
+  event.transaction.input = Bytes.fromHexString("0xbc4f2d6d").concat(
+    ethereum.encode(ethereum.Value.fromUnsignedBigInt(lpPrice))!
+  )
+  return event
+}
+
+export function mockRevertingViews(contract: Address, signatures: string[]): void {
+  for (let i = 0; i < signatures.length; i++) {
+    let name = signatures[i].slice(0, signatures[i].indexOf("("))
+    createMockedFunction(contract, name, signatures[i]).reverts()
+  }
+}
+
+export function mockAddressView(contract: Address, signature: string, value: Address): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromAddress(value)])
+}
+
+export function mockUint8View(contract: Address, signature: string, value: i32): void {
+  let name = signature.slice(0, signature.indexOf("("))
+  createMockedFunction(contract, name, signature).returns([ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(value))])
+}
@@ -0,0 +1,165 @@
+import {
+  assert,
+  beforeEach,
+  clearStore,
+  describe,
+  test
+} from "matchstick-as"
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts"
+import { handleProfitSpillover, handleBackstopTriggered } from "../src/senior"
+import {
+  handleSpilloverReceived as handleJuniorSpillover,
+  handleBackstopProvided as handleJuniorBackstop
+} from "../src/junior"
+import {
+  handleSpilloverReceived as handleReserveSpillover,
+  handleBackstopProvided as handleReserveBackstop
+} from "../src/reserve"
+import {
+  createProfitSpilloverEvent,
+  createBackstopTriggeredEvent,
+  createJuniorSpilloverReceivedEvent,
+  createJuniorBackstopProvidedEvent,
+  createReserveSpilloverReceivedEvent,
+  createReserveBackstopProvidedEvent,
+  asRebaseCall,
+  mockAddressView,
+  mockRevertingViews,
+  mockUint8View
+} from "./unified-flows-utils"
+
+// newMockEvent() reuses this as the transaction hash, so every event joins the same flows
+let TX_HASH = "0xa16081f360e3847006db660bae1c6d1b2e17ec2a"
+let SPILLOVER = TX_HASH + "-SPILLOVER"
+let BACKSTOP = TX_HASH + "-BACKSTOP"
+
+let SENIOR = Address.fromString("0x00000000000000000000000000000000000000c4")
+let JUNIOR = Address.fromString("0x00000000000000000000000000000000000000c5")
+let RESERVE = Address.fromString("0x00000000000000000000000000000000000000c6")
+let OTHER_SENIOR = Address.fromString("0x00000000000000000000000000000000000000c7")
+let HOOK = Address.fromString("0x00000000000000000000000000000000000000d1")
+let ISLAND = Address.fromString("0x00000000000000000000000000000000000000d3")
+
+// $3 per LP token: one LP wei is worth 3 USD wei, so a tranche can lose up to 3 to rounding
+let LP_PRICE = BigInt.fromString("3000000000000000000")
+
+function at<T extends ethereum.Event>(event: T, logIndex: i32): T {
+  event.logIndex = BigInt.fromI32(logIndex)
+  return event
+}
+
+function amount(value: i32): BigInt {
+  return BigInt.fromI32(value)
+}
+
+function mockIsland(decimals: i32): void {
+  mockAddressView(SENIOR, "kodiakHook():(address)", HOOK)
+  mockAddressView(HOOK, "island():(address)", ISLAND)
+  mockUint8View(ISLAND, "decimals():(uint8)", decimals)
+}
+
+beforeEach(() => {
+  clearStore()
+  mockRevertingViews(SENIOR, ["kodiakHook():(address)"])
+})
+
+describe("Spillovers", () => {
+  test("joins tranche legs emitted before senior and accepts LP rounding", () => {
+    mockIsland(18)
+    // 1000 USD buys floor(1000 / 3) = 333 LP wei, credited back as 999; 500 buys 166, credited as 498
+    handleJuniorSpillover(at(createJuniorSpilloverReceivedEvent(JUNIOR, amount(999), SENIOR), 1))
+    handleReserveSpillover(at(createReserveSpilloverReceivedEvent(RESERVE, amount(498), SENIOR), 2))
+
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "seniorReported", "false")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "hasMismatch", "false")
+
+    let spillover = createProfitSpilloverEvent(SENIOR, amount(1500), amount(1000), amount(500))
+    handleProfitSpillover(at(asRebaseCall(spillover, SENIOR, LP_PRICE), 3))
+
+    assert.entityCount("TrancheFlowLeg", 3)
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "seniorReported", "true")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "seniorVault", SENIOR.toHexString())
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "lpPrice", LP_PRICE.toString())
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "roundingTolerance", "3")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorDifference", "1")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "reserveDifference", "2")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "hasMismatch", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalSpilloverFlows", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "0")
+  })
+
+  test("flags a shortfall beyond one LP unit", () => {
+    mockIsland(18)
+    handleJuniorSpillover(at(createJuniorSpilloverReceivedEvent(JUNIOR, amount(996), SENIOR), 1))
+    handleReserveSpillover(at(createReserveSpilloverReceivedEvent(RESERVE, amount(498), SENIOR), 2))
+    let spillover = createProfitSpilloverEvent(SENIOR, amount(1500), amount(1000), amount(500))
+    handleProfitSpillover(at(asRebaseCall(spillover, SENIOR, LP_PRICE), 3))
+
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorDifference", "4")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorMismatch", "true")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "reserveMismatch", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "1")
+  })
+
+  test("flags a leg senior reported that no tranche received", () => {
+    // junior had no hook, so senior skipped the transfer but still reported toJunior
+    handleReserveSpillover(at(createReserveSpilloverReceivedEvent(RESERVE, amount(500), SENIOR), 1))
+    handleProfitSpillover(at(createProfitSpilloverEvent(SENIOR, amount(1500), amount(1000), amount(500)), 2))
+
+    assert.entityCount("TrancheFlowLeg", 2)
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "roundingTolerance", "0")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorAmount", "0")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorDifference", "1000")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorMismatch", "true")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "reserveMismatch", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "1")
+  })
+
+  test("compares exactly when lpPrice is not in the calldata", () => {
+    handleJuniorSpillover(at(createJuniorSpilloverReceivedEvent(JUNIOR, amount(999), SENIOR), 1))
+    handleProfitSpillover(at(createProfitSpilloverEvent(SENIOR, amount(1000), amount(1000), amount(0)), 2))
+
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "roundingTolerance", "0")
+    assert.fieldEquals("CrossTrancheFlow", SPILLOVER, "juniorMismatch", "true")
+  })
+})
+
+describe("Backstops", () => {
+  test("clears the mismatch once legs arrive after senior", () => {
+    handleBackstopTriggered(at(createBackstopTriggeredEvent(SENIOR, amount(500), amount(300), amount(200), true), 1))
+
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "hasMismatch", "true")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "1")
+
+    handleReserveBackstop(at(createReserveBackstopProvidedEvent(RESERVE, amount(300), SENIOR), 2))
+    handleJuniorBackstop(at(createJuniorBackstopProvidedEvent(JUNIOR, amount(200), SENIOR), 3))
+
+    assert.entityCount("TrancheFlowLeg", 3)
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "juniorDifference", "0")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "reserveDifference", "0")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "fullyRestored", "true")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "hasMismatch", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalBackstopFlows", "1")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "0")
+  })
+
+  test("leaves a leg without a senior report unmatched", () => {
+    handleJuniorBackstop(at(createJuniorBackstopProvidedEvent(JUNIOR, amount(200), SENIOR), 1))
+
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "seniorReported", "false")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "juniorAmount", "200")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "hasMismatch", "false")
+  })
+
+  test("flags a leg paid to a different senior vault", () => {
+    handleReserveBackstop(at(createReserveBackstopProvidedEvent(RESERVE, amount(300), SENIOR), 1))
+    handleJuniorBackstop(at(createJuniorBackstopProvidedEvent(JUNIOR, amount(200), OTHER_SENIOR), 2))
+    handleBackstopTriggered(at(createBackstopTriggeredEvent(SENIOR, amount(500), amount(300), amount(200), true), 3))
+
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "juniorCounterparty", OTHER_SENIOR.toHexString())
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "juniorDifference", "0")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "juniorMismatch", "true")
+    assert.fieldEquals("CrossTrancheFlow", BACKSTOP, "reserveMismatch", "false")
+    assert.fieldEquals("ProtocolStats", "protocol", "totalMismatchedFlows", "1")
+  })
+})